@@ -0,0 +1,157 @@
+/**
+ * Runtime Agent Registry for SovereigntyOS AI
+ * Registers, updates, disables and removes orchestrator agents, including from JSON/YAML files
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import type { AgentCapability } from './CognitiveOrchestrator';
+
+export interface RegisteredAgent extends AgentCapability {
+  enabled: boolean;
+}
+
+/**
+ * Validate an untrusted agent definition; returns a list of problems, empty when valid
+ */
+export function validateAgentDefinition(value: unknown): string[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return ['agent definition must be an object'];
+  }
+
+  const agent = value as Record<string, unknown>;
+  const label = typeof agent.id === 'string' && agent.id ? agent.id : '(unnamed)';
+  const errors: string[] = [];
+  const isPositive = (n: unknown) => typeof n === 'number' && Number.isFinite(n) && n > 0;
+
+  for (const field of ['id', 'name', 'modelType']) {
+    if (typeof agent[field] !== 'string' || !(agent[field] as string).trim()) {
+      errors.push(`${label}: ${field} must be a non-empty string`);
+    }
+  }
+  if (!Array.isArray(agent.specialization) || agent.specialization.length === 0 ||
+      !agent.specialization.every(spec => typeof spec === 'string' && spec)) {
+    errors.push(`${label}: specialization must be a non-empty array of strings`);
+  }
+  if (typeof agent.costPerQuery !== 'number' || !Number.isFinite(agent.costPerQuery) || agent.costPerQuery < 0) {
+    errors.push(`${label}: costPerQuery must be a non-negative number`);
+  }
+  if (!isPositive(agent.latency)) {
+    errors.push(`${label}: latency must be a positive number of milliseconds`);
+  }
+  if (typeof agent.reliability !== 'number' || agent.reliability < 0 || agent.reliability > 1) {
+    errors.push(`${label}: reliability must be between 0 and 1`);
+  }
+  if (!isPositive(agent.contextWindow)) {
+    errors.push(`${label}: contextWindow must be a positive token count`);
+  }
+
+  return errors;
+}
+
+export class AgentRegistry {
+  private agents: Map<string, AgentCapability> = new Map();
+  private disabled: Set<string> = new Set();
+
+  register(agent: AgentCapability): void {
+    if (this.agents.has(agent.id)) {
+      throw new Error(`Agent ${agent.id} is already registered`);
+    }
+    this.assertValid(agent);
+    this.agents.set(agent.id, { ...agent });
+  }
+
+  update(id: string, changes: Partial<Omit<AgentCapability, 'id'>>): AgentCapability {
+    const existing = this.require(id);
+    const updated = { ...existing, ...changes, id };
+    this.assertValid(updated);
+    this.agents.set(id, updated);
+    return updated;
+  }
+
+  remove(id: string): void {
+    this.require(id);
+    this.agents.delete(id);
+    this.disabled.delete(id);
+  }
+
+  disable(id: string): void {
+    this.require(id);
+    this.disabled.add(id);
+  }
+
+  enable(id: string): void {
+    this.require(id);
+    this.disabled.delete(id);
+  }
+
+  get(id: string): AgentCapability | undefined {
+    return this.agents.get(id);
+  }
+
+  isEnabled(id: string): boolean {
+    return this.agents.has(id) && !this.disabled.has(id);
+  }
+
+  /**
+   * Enabled agents only; disabled agents are never routed to or used as substitutes
+   */
+  enabled(): Map<string, AgentCapability> {
+    return new Map(Array.from(this.agents).filter(([id]) => !this.disabled.has(id)));
+  }
+
+  list(): RegisteredAgent[] {
+    return Array.from(this.agents.values()).map(agent => ({ ...agent, enabled: !this.disabled.has(agent.id) }));
+  }
+
+  /**
+   * Register or update every agent defined in a JSON or YAML file.
+   * The file holds either an array of definitions or `{ agents: [...] }`.
+   * Nothing is applied unless every definition is valid and every id is unique.
+   */
+  loadFromFile(filePath: string): AgentCapability[] {
+    const content = fs.readFileSync(filePath, 'utf8');
+    const extension = path.extname(filePath).toLowerCase();
+    const parsed = extension === '.yaml' || extension === '.yml' ? parseYaml(content) : JSON.parse(content);
+    const definitions: unknown = Array.isArray(parsed) ? parsed : parsed?.agents;
+
+    if (!Array.isArray(definitions)) {
+      throw new Error(`Invalid agent file ${filePath}: expected an array of agents or { agents: [...] }`);
+    }
+
+    const errors = definitions.flatMap(validateAgentDefinition);
+    const seen = new Set<string>();
+    for (const definition of definitions as Array<{ id?: unknown }>) {
+      if (typeof definition?.id !== 'string') continue;
+      if (seen.has(definition.id)) {
+        errors.push(`${definition.id}: id is defined more than once`);
+      }
+      seen.add(definition.id);
+    }
+    if (errors.length > 0) {
+      throw new Error(`Invalid agent definitions in ${filePath}:\n- ${errors.join('\n- ')}`);
+    }
+
+    const agents = definitions as AgentCapability[];
+    for (const agent of agents) {
+      this.agents.set(agent.id, { ...agent });
+    }
+    return agents;
+  }
+
+  private require(id: string): AgentCapability {
+    const agent = this.agents.get(id);
+    if (!agent) {
+      throw new Error(`Agent ${id} is not registered`);
+    }
+    return agent;
+  }
+
+  private assertValid(agent: AgentCapability): void {
+    const errors = validateAgentDefinition(agent);
+    if (errors.length > 0) {
+      throw new Error(`Invalid agent definition: ${errors.join('; ')}`);
+    }
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * Human-in-the-loop Approval Gates for SovereigntyOS AI
+ * Pauses sensitive or expensive agent calls until an operator approves or rejects them
+ */
+
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import type { AgentCapability, ReasoningContext } from './CognitiveOrchestrator';
+
+export interface ApprovalPolicy {
+  confidentialityLevels?: ReasoningContext['confidentialityLevel'][]; // Default: ['secret']
+  urgencyLevels?: ReasoningContext['urgency'][]; // Default: ['critical']
+  costThreshold?: number; // Agent calls costing at least this need approval
+  timeoutMs?: number; // Unanswered requests are rejected after this long
+}
+
+export interface ApprovalRequest {
+  id: string;
+  taskId: string;
+  agent: string;
+  cost: number;
+  reasons: string[];
+  domain: string;
+  confidentialityLevel: ReasoningContext['confidentialityLevel'];
+  urgency: ReasoningContext['urgency'];
+  tenantId?: string;
+  requestedAt: Date;
+  expiresAt: Date;
+}
+
+export type ApprovalDecision = 'approved' | 'rejected' | 'timed-out' | 'cancelled';
+
+export interface ApprovalAuditEntry {
+  requestId: string;
+  taskId: string;
+  agent: string;
+  reasons: string[];
+  decision: ApprovalDecision;
+  decidedBy?: string;
+  comment?: string;
+  requestedAt: Date;
+  decidedAt: Date;
+}
+
+export class ApprovalRejectedError extends Error {
+  readonly request: ApprovalRequest;
+  readonly decision: ApprovalDecision;
+
+  constructor(request: ApprovalRequest, decision: ApprovalDecision, comment?: string) {
+    super(
+      `Approval ${decision === 'timed-out' ? 'timed out' : decision} for ${request.agent} on task ${request.taskId}${comment ? `: ${comment}` : ''}`
+    );
+    this.name = 'ApprovalRejectedError';
+    this.request = request;
+    this.decision = decision;
+  }
+}
+
+interface PendingApproval {
+  request: ApprovalRequest;
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export class ApprovalGate extends EventEmitter {
+  private policy: Required<Omit<ApprovalPolicy, 'costThreshold'>> & { costThreshold: number };
+  private pending: Map<string, PendingApproval> = new Map();
+  private approved: Set<string> = new Set(); // `${taskId}:${agentId}` pairs already cleared
+  private awaiting: Map<string, Promise<void>> = new Map(); // Concurrent calls share one request
+  private auditTrail: ApprovalAuditEntry[] = [];
+  private maxAuditTrailSize: number;
+
+  constructor(policy: ApprovalPolicy = {}, maxAuditTrailSize: number = 10000) {
+    super();
+    this.maxAuditTrailSize = maxAuditTrailSize;
+    this.policy = {
+      confidentialityLevels: policy.confidentialityLevels || ['secret'],
+      urgencyLevels: policy.urgencyLevels || ['critical'],
+      costThreshold: policy.costThreshold ?? Infinity,
+      timeoutMs: policy.timeoutMs ?? 5 * 60 * 1000 // 5 minutes
+    };
+  }
+
+  /**
+   * Why a call needs approval; empty when it may proceed unattended
+   */
+  requiresApproval(agent: AgentCapability, context: ReasoningContext): string[] {
+    const reasons: string[] = [];
+
+    if (this.policy.confidentialityLevels.includes(context.confidentialityLevel)) {
+      reasons.push(`confidentiality level is ${context.confidentialityLevel}`);
+    }
+    if (this.policy.urgencyLevels.includes(context.urgency)) {
+      reasons.push(`urgency is ${context.urgency}`);
+    }
+    if (agent.costPerQuery >= this.policy.costThreshold) {
+      reasons.push(`${agent.id} costs $${agent.costPerQuery.toFixed(2)} per call`);
+    }
+
+    return reasons;
+  }
+
+  /**
+   * Resolve once the call is approved; rejects with ApprovalRejectedError on rejection or timeout.
+   * An agent approved for a task is not gated again for the same task (retries, debate rounds),
+   * and concurrent calls for the same agent and task wait on one request.
+   */
+  async checkpoint(
+    agent: AgentCapability,
+    context: ReasoningContext,
+    onRequest?: (request: ApprovalRequest) => void
+  ): Promise<void> {
+    const reasons = this.requiresApproval(agent, context);
+    const key = `${context.taskId}:${agent.id}`;
+    if (reasons.length === 0 || this.approved.has(key)) return;
+    if (this.awaiting.has(key)) return this.awaiting.get(key);
+
+    const requestedAt = new Date();
+    const request: ApprovalRequest = {
+      id: uuidv4(),
+      taskId: context.taskId,
+      agent: agent.id,
+      cost: agent.costPerQuery,
+      reasons,
+      domain: context.domain,
+      confidentialityLevel: context.confidentialityLevel,
+      urgency: context.urgency,
+      tenantId: context.tenantId,
+      requestedAt,
+      expiresAt: new Date(requestedAt.getTime() + this.policy.timeoutMs)
+    };
+
+    const decision = new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => this.decide(request.id, 'timed-out'), this.policy.timeoutMs);
+      this.pending.set(request.id, { request, resolve, reject, timer });
+    })
+      .then(() => { this.approved.add(key); })
+      .finally(() => this.awaiting.delete(key));
+    this.awaiting.set(key, decision);
+
+    this.emit('approval-required', request);
+    onRequest?.(request);
+    await decision;
+  }
+
+  approve(requestId: string, options: { by?: string; comment?: string } = {}): void {
+    this.decide(requestId, 'approved', options);
+  }
+
+  reject(requestId: string, options: { by?: string; comment?: string } = {}): void {
+    this.decide(requestId, 'rejected', options);
+  }
+
+  getPending(): ApprovalRequest[] {
+    return Array.from(this.pending.values()).map(pending => pending.request);
+  }
+
+  getAuditTrail(): ApprovalAuditEntry[] {
+    return [...this.auditTrail];
+  }
+
+  /**
+   * Forget approvals granted for a finished task and cancel any requests it left pending
+   */
+  releaseTask(taskId: string): void {
+    for (const key of Array.from(this.approved)) {
+      if (key.startsWith(`${taskId}:`)) this.approved.delete(key);
+    }
+    for (const pending of Array.from(this.pending.values())) {
+      if (pending.request.taskId === taskId) this.decide(pending.request.id, 'cancelled');
+    }
+  }
+
+  private decide(
+    requestId: string,
+    decision: ApprovalDecision,
+    options: { by?: string; comment?: string } = {}
+  ): void {
+    const pending = this.pending.get(requestId);
+    if (!pending) {
+      throw new Error(`No pending approval request ${requestId}`);
+    }
+
+    clearTimeout(pending.timer);
+    this.pending.delete(requestId);
+
+    const entry: ApprovalAuditEntry = {
+      requestId,
+      taskId: pending.request.taskId,
+      agent: pending.request.agent,
+      reasons: pending.request.reasons,
+      decision,
+      decidedBy: options.by,
+      comment: options.comment,
+      requestedAt: pending.request.requestedAt,
+      decidedAt: new Date()
+    };
+    this.auditTrail.push(entry);
+    if (this.auditTrail.length > this.maxAuditTrailSize) {
+      this.auditTrail.splice(0, this.auditTrail.length - this.maxAuditTrailSize);
+    }
+    this.emit('approval-decided', entry);
+
+    if (decision === 'approved') {
+      pending.resolve();
+    } else {
+      pending.reject(new ApprovalRejectedError(pending.request, decision, options.comment));
+    }
+  }
+}
@@ -4,28 +4,99 @@
  */
 
 import { EventEmitter } from 'events';
+import {
+  ModelProviderAdapter,
+  ModelProviderRequest,
+  ModelProviderResponse,
+  TokenHandler,
+  createDefaultProviderAdapters
+} from './ModelProviders';
+import {
+  CostBudgetConfig,
+  CostOptimizationResult,
+  CostOptimizer,
+  sharedSpecializationTerms
+} from './CostOptimizer';
+import { GuardrailAuditEvent, GuardrailPolicy, SecurityGuardrails } from './SecurityGuardrails';
+import { MemoryRecord, MemoryStore, StateMemoryManager } from './StateMemoryManager';
+import { AgentRegistry, RegisteredAgent } from './AgentRegistry';
+import {
+  ConversationSession,
+  ConversationTurn,
+  SerializedSession,
+  SessionOptions,
+  historyBudgetFor,
+  trimHistory
+} from './ConversationSession';
+import {
+  ComplexityClassifier,
+  ComplexityTier,
+  DEFAULT_ROUTING_THRESHOLDS,
+  HeuristicComplexityClassifier,
+  RoutingOutcome,
+  RoutingThresholds,
+  TrainableComplexityClassifier,
+  outcomeToTrainingSample,
+  tierForScore
+} from './ComplexityClassifier';
+import { OtlpJsonFileExporter, Span, Tracer } from './Tracing';
+import { StepVerifier, VerificationConfig, VerificationResult, heuristicVerification } from './StepVerifier';
+import { ResponseSynthesizer, SynthesisConfig, SynthesisResult } from './ResponseSynthesizer';
+import { ApprovalAuditEntry, ApprovalGate, ApprovalPolicy, ApprovalRejectedError, ApprovalRequest } from './ApprovalGate';
+import { ReasoningRecorder, RecordedTask, ReplayDivergence, ReplayResponses } from './ReasoningRecorder';
+import { QueryScheduler, QueuedQuery, TaskCancelledError } from './QueryScheduler';
+import { PromptTemplateRef, PromptTemplateRegistry, RenderedPrompt } from './PromptTemplates';
+import { CalibrationConfig, ConfidenceCalibrator } from './ConfidenceCalibrator';
+import {
+  JsonSchema,
+  StructuredOutputConfig,
+  StructuredOutputError,
+  buildSchemaInstructions,
+  buildSchemaReaskPrompt,
+  parseStructuredOutput
+} from './StructuredOutput';
 
-interface AgentCapability {
+export interface AgentCapability {
   id: string;
   name: string;
-  modelType: 'gpt-5' | 'claude-sonnet-4.5' | 'gemini-2.5-pro' | 'glm-4.5';
+  modelType: string; // e.g. 'gpt-5', 'claude-sonnet-4.5'; needs a registered provider adapter
   specialization: string[];
   costPerQuery: number;
   latency: number;
   reliability: number;
+  contextWindow: number; // token limit
 }
 
-interface ReasoningContext {
+/**
+ * How selected agents collaborate on a query:
+ * - sequential: each agent refines the previous agent's output
+ * - parallel: agents answer independently, then their answers are synthesized
+ * - debate: agents answer independently, then critique and revise each other's answers
+ */
+export type ExecutionStrategy = 'sequential' | 'parallel' | 'debate';
+
+export interface ReasoningContext {
   taskId: string;
   complexity: 'simple' | 'medium' | 'complex' | 'critical';
   domain: string;
   urgency: 'low' | 'medium' | 'high' | 'critical';
   confidentialityLevel: 'public' | 'internal' | 'confidential' | 'secret';
+  tenantId?: string;
+  maxCost?: number; // Per-request budget, overrides the orchestrator default
   reasoningChain: ReasoningStep[];
+  memories?: MemoryRecord[]; // Prior analyses injected into agent prompts; recalled from long-term memory when omitted
+  history?: ConversationTurn[]; // Earlier session turns, trimmed per agent context window
+  maxHistoryTokens?: number;
+  agents?: string[]; // Explicit agent selection, bypasses complexity routing
+  executionStrategy?: ExecutionStrategy;
+  debateRounds?: number; // Critique rounds after the opening answers in debate mode
+  locale?: string; // Selects localized prompt templates, e.g. 'af-ZA'
+  promptVersions?: Record<string, number>; // Pin prompt template versions by template id
+  outputSchema?: JsonSchema; // Agents must answer with JSON conforming to this schema; see QueryResult.data
   metadata: Record<string, any>;
 }
 
-interface ReasoningStep {
+export interface ReasoningStep {
   agent: string;
   input: string;
   output: string;
@@ -33,6 +104,81 @@ interface ReasoningStep {
   timestamp: Date;
   reasoning: string;
   verification: boolean;
+  model?: string;
+  tokens?: number;
+  round?: number; // Debate round, 0 for opening answers
+  promptTemplate?: PromptTemplateRef;
+  structured?: unknown; // Validated output when the context requests an output schema
+}
+
+export interface QueryResult<T = unknown> {
+  response: string;
+  reasoningChain: ReasoningStep[];
+  confidence: number;
+  cost: number;
+  data?: T; // Schema-conforming answer when the context requests an output schema
+  metadata: Record<string, any>;
+}
+
+/**
+ * Events yielded by streamComplexQuery; each mirrors the emitter event of the same name
+ */
+export type ReasoningStreamEvent =
+  | { type: 'reasoning-started'; taskId: string; query: string; context: ReasoningContext }
+  | { type: 'cache-hit'; taskId: string; query: string }
+  | { type: 'token'; taskId: string; agent: string; token: string }
+  | { type: 'reasoning-step'; taskId: string; agent: string; step: ReasoningStep }
+  | { type: 'approval-required'; taskId: string; request: ApprovalRequest }
+  | { type: 'step-verified'; taskId: string; agent: string; step: ReasoningStep; result: VerificationResult }
+  | { type: 'reasoning-completed'; taskId: string; response: string; cost: number; result: QueryResult };
+
+type ReasoningStreamSink = (event: ReasoningStreamEvent) => void;
+
+export interface ResilienceConfig {
+  timeoutMultiplier?: number; // Per-attempt timeout as a multiple of AgentCapability.latency
+  maxRetries?: number; // Retries per agent before falling back
+  baseBackoffMs?: number;
+  maxBackoffMs?: number;
+  maxFallbacks?: number; // Substitute agents tried after the selected agent gives up
+}
+
+/**
+ * Routing outcomes kept for classifier training; oldest are dropped first
+ */
+const MAX_ROUTING_OUTCOMES = 1000;
+
+export interface CognitiveOrchestratorOptions {
+  providerAdapters?: ModelProviderAdapter[];
+  costBudget?: CostBudgetConfig;
+  guardrailPolicy?: GuardrailPolicy | string; // Policy object or path to a JSON policy file
+  memoryStore?: MemoryStore;
+  memoryPath?: string; // JSONL file for persistent memory; in-memory when omitted
+  resilience?: ResilienceConfig;
+  complexityClassifier?: ComplexityClassifier; // Heuristic scoring when omitted
+  routingThresholds?: Partial<RoutingThresholds>;
+  tracer?: Tracer;
+  traceExportPath?: string; // OTLP/JSON lines file; ignored when a tracer is supplied
+  verification?: VerificationConfig;
+  synthesis?: SynthesisConfig;
+  approvalPolicy?: ApprovalPolicy; // No approval gate when omitted
+  recordingPath?: string; // JSONL reasoning-chain log for replay; nothing recorded when omitted
+  maxConcurrentQueries?: number; // Further queries wait in a priority queue; unlimited when omitted
+  promptTemplates?: PromptTemplateRegistry; // DEFAULT_PROMPT_TEMPLATES when omitted
+  structuredOutput?: StructuredOutputConfig;
+  calibration?: CalibrationConfig | ConfidenceCalibrator; // Confidences pass through unchanged until outcomes are recorded
+}
+
+export interface QueryOptions {
+  signal?: AbortSignal;
+}
+
+export interface ReplayResult {
+  recording: RecordedTask;
+  result?: QueryResult;
+  error?: Error;
+  divergences: ReplayDivergence[];
+  unusedCalls: number; // Recorded calls the replay never made
+  routingChanged: boolean;
 }
 
 interface SemanticCache {
@@ -45,108 +191,285 @@ interface SemanticCache {
 }
 
 export class CognitiveOrchestrator extends EventEmitter {
-  private agents: Map<string, AgentCapability> = new Map();
+  private agents: AgentRegistry = new AgentRegistry();
   private semanticCache: Map<string, SemanticCache> = new Map();
   private activeReasoningChains: Map<string, ReasoningContext> = new Map();
   private costOptimizer: CostOptimizer;
   private securityGuardrails: SecurityGuardrails;
   private memoryManager: StateMemoryManager;
+  private providerAdapters: Map<string, ModelProviderAdapter> = new Map();
+  private resilience: Required<ResilienceConfig>;
+  private complexityClassifier: ComplexityClassifier;
+  private routingThresholds: RoutingThresholds;
+  private routingOutcomes: RoutingOutcome[] = [];
+  private tracer: Tracer;
+  private querySpans: Map<string, Span> = new Map();
+  private verification: VerificationConfig;
+  private synthesis: SynthesisConfig;
+  private approvalGate: ApprovalGate | null;
+  private recorder: ReasoningRecorder | null;
+  private scheduler: QueryScheduler;
+  private taskControllers: Map<string, AbortController> = new Map();
+  private taskBudgets: Map<string, { spent: number; reserved: number }> = new Map();
+  private promptTemplates: PromptTemplateRegistry;
+  private structuredOutput: StructuredOutputConfig;
+  private calibrator: ConfidenceCalibrator;
 
-  constructor() {
+  constructor(options: CognitiveOrchestratorOptions = {}) {
     super();
     this.initializeAgents();
-    this.costOptimizer = new CostOptimizer();
-    this.securityGuardrails = new SecurityGuardrails();
-    this.memoryManager = new StateMemoryManager();
+    for (const adapter of options.providerAdapters || createDefaultProviderAdapters()) {
+      this.registerProviderAdapter(adapter);
+    }
+    this.resilience = {
+      timeoutMultiplier: 5,
+      maxRetries: 2,
+      baseBackoffMs: 250,
+      maxBackoffMs: 4000,
+      maxFallbacks: 1,
+      ...options.resilience
+    };
+    this.costOptimizer = new CostOptimizer(options.costBudget);
+    this.securityGuardrails = new SecurityGuardrails(options.guardrailPolicy);
+    this.securityGuardrails.on('audit', event => this.emit('security-audit', event));
+    this.memoryManager = new StateMemoryManager({
+      store: options.memoryStore,
+      path: options.memoryPath
+    });
+    this.complexityClassifier = options.complexityClassifier || new HeuristicComplexityClassifier();
+    this.routingThresholds = { ...DEFAULT_ROUTING_THRESHOLDS, ...options.routingThresholds };
+    this.verification = { reask: false, failurePenalty: 0.5, ...options.verification };
+    this.synthesis = { ...options.synthesis };
+    this.approvalGate = options.approvalPolicy ? new ApprovalGate(options.approvalPolicy) : null;
+    this.approvalGate?.on('approval-required', request => this.emit('approval-required', request));
+    this.approvalGate?.on('approval-decided', entry => this.emit('approval-decided', entry));
+    this.recorder = options.recordingPath ? new ReasoningRecorder(options.recordingPath) : null;
+    this.recorder?.on('write-failed', event => this.emit('recording-failed', event));
+    this.scheduler = new QueryScheduler(options.maxConcurrentQueries);
+    this.promptTemplates = options.promptTemplates || new PromptTemplateRegistry();
+    this.structuredOutput = options.structuredOutput || {};
+    this.calibrator = options.calibration instanceof ConfidenceCalibrator
+      ? options.calibration
+      : new ConfidenceCalibrator(options.calibration);
+    this.calibrator.on('write-failed', event => this.emit('calibration-write-failed', event));
+    this.tracer = options.tracer || new Tracer({
+      exporter: options.traceExportPath ? new OtlpJsonFileExporter(options.traceExportPath) : undefined
+    });
   }
 
   private initializeAgents(): void {
     // GPT-5 - Advanced reasoning and general intelligence
-    this.agents.set('gpt-5-orchestrator', {
+    this.agents.register({
       id: 'gpt-5-orchestrator',
       name: 'GPT-5 Master Orchestrator',
       modelType: 'gpt-5',
       specialization: ['complex-reasoning', 'task-decomposition', 'strategic-planning'],
       costPerQuery: 0.15,
       latency: 2500,
-      reliability: 0.98
+      reliability: 0.98,
+      contextWindow: 400000 // 400k tokens
     });
 
     // Claude Sonnet 4.5 - Analysis and critical thinking
-    this.agents.set('claude-analyst', {
+    this.agents.register({
       id: 'claude-analyst',
       name: 'Claude Critical Analyst',
       modelType: 'claude-sonnet-4.5',
       specialization: ['critical-analysis', 'document-processing', 'ethical-reasoning'],
       costPerQuery: 0.12,
       latency: 2000,
-      reliability: 0.97
+      reliability: 0.97,
+      contextWindow: 200000 // 200k tokens
     });
 
     // Gemini 2.5 Pro - Multimodal processing
-    this.agents.set('gemini-multimodal', {
+    this.agents.register({
       id: 'gemini-multimodal',
       name: 'Gemini Multimodal Processor',
       modelType: 'gemini-2.5-pro',
       specialization: ['multimodal-analysis', 'data-visualization', 'pattern-recognition'],
       costPerQuery: 0.08,
       latency: 1800,
-      reliability: 0.95
+      reliability: 0.95,
+      contextWindow: 1000000 // 1M tokens
     });
 
     // GLM-4.5 - Cost-effective processing
-    this.agents.set('glm-efficient', {
+    this.agents.register({
       id: 'glm-efficient',
       name: 'GLM Efficient Processor',
       modelType: 'glm-4.5',
       specialization: ['routine-tasks', 'data-processing', 'simple-reasoning'],
       costPerQuery: 0.03,
       latency: 1000,
-      reliability: 0.92
+      reliability: 0.92,
+      contextWindow: 128000 // 128k tokens
     });
   }
 
   /**
    * Main reasoning engine with multi-agent collaboration
    */
-  async processComplexQuery(
+  async processComplexQuery<T = unknown>(
     query: string,
-    context: Partial<ReasoningContext> = {}
-  ): Promise<{
-    response: string;
-    reasoningChain: ReasoningStep[];
-    confidence: number;
-    cost: number;
-    metadata: Record<string, any>;
-  }> {
+    context: Partial<ReasoningContext> = {},
+    options: QueryOptions = {}
+  ): Promise<QueryResult<T>> {
+    return this.runQuery(query, context, options.signal) as Promise<QueryResult<T>>;
+  }
+
+  /**
+   * Streaming variant of processComplexQuery: yields partial tokens per agent,
+   * step boundaries and the final synthesis while the chain is still running.
+   * Each attempt's tokens are held until its output passes the output guardrails: failed
+   * attempts release none, and output the guardrails changed is released as one redacted token.
+   */
+  async *streamComplexQuery(
+    query: string,
+    context: Partial<ReasoningContext> = {},
+    options: QueryOptions = {}
+  ): AsyncGenerator<ReasoningStreamEvent> {
+    const pending: ReasoningStreamEvent[] = [];
+    let wake: (() => void) | null = null;
+    let finished = false;
+    let failure: unknown = null;
+    // Abandoning the iterator cancels the query
+    const controller = new AbortController();
+    const forwardAbort = () => controller.abort(options.signal?.reason);
+    if (options.signal?.aborted) forwardAbort();
+    options.signal?.addEventListener('abort', forwardAbort, { once: true });
+
+    this.runQuery(query, context, controller.signal, event => {
+      pending.push(event);
+      wake?.();
+    })
+      .catch(error => { failure = error; })
+      .finally(() => {
+        finished = true;
+        wake?.();
+      });
+
+    try {
+      while (pending.length > 0 || !finished) {
+        if (pending.length === 0) {
+          await new Promise<void>(resolve => { wake = resolve; });
+          wake = null;
+          continue;
+        }
+        yield pending.shift()!;
+      }
+    } finally {
+      options.signal?.removeEventListener('abort', forwardAbort);
+      if (!finished) controller.abort(new Error('Stream closed by consumer'));
+    }
+
+    if (failure) throw failure;
+  }
+
+  /**
+   * Register the task for cancellation and wait for a scheduler slot before executing it
+   */
+  private async runQuery(
+    query: string,
+    context: Partial<ReasoningContext>,
+    signal?: AbortSignal,
+    sink?: ReasoningStreamSink
+  ): Promise<QueryResult> {
     const taskId = this.generateTaskId();
+    const controller = new AbortController();
+    const forwardAbort = () => controller.abort(signal?.reason);
+    if (signal?.aborted) forwardAbort();
+    signal?.addEventListener('abort', forwardAbort, { once: true });
+    this.taskControllers.set(taskId, controller);
+
+    try {
+      const priority = { urgency: context.urgency || 'medium', complexity: context.complexity || 'medium' };
+      if (this.scheduler.isSaturated()) {
+        this.emit('query-queued', { taskId, ...priority });
+      }
+      await this.scheduler.acquire(taskId, priority, controller.signal);
+      try {
+        return await this.executeQuery(taskId, query, context, sink);
+      } finally {
+        this.scheduler.release();
+      }
+    } finally {
+      signal?.removeEventListener('abort', forwardAbort);
+      this.taskControllers.delete(taskId);
+    }
+  }
+
+  private async executeQuery(
+    taskId: string,
+    query: string,
+    context: Partial<ReasoningContext>,
+    sink?: ReasoningStreamSink
+  ): Promise<QueryResult> {
     const fullContext: ReasoningContext = {
       taskId,
       complexity: context.complexity || 'medium',
       domain: context.domain || 'general',
       urgency: context.urgency || 'medium',
       confidentialityLevel: context.confidentialityLevel || 'internal',
+      tenantId: context.tenantId,
+      maxCost: context.maxCost,
+      history: context.history || [],
+      maxHistoryTokens: context.maxHistoryTokens,
+      agents: context.agents,
+      executionStrategy: context.executionStrategy || 'sequential',
+      debateRounds: context.debateRounds ?? 1,
+      locale: context.locale,
+      promptVersions: context.promptVersions,
+      outputSchema: context.outputSchema,
       reasoningChain: [],
-      metadata: context.metadata || {}
+      metadata: { ...context.metadata }
     };
 
+    const rootSpan = this.tracer.startSpan('cognitive.query', {
+      attributes: {
+        'task.id': taskId,
+        'query.domain': fullContext.domain,
+        'query.confidentiality': fullContext.confidentialityLevel,
+        'query.strategy': fullContext.executionStrategy,
+        'tenant.id': fullContext.tenantId
+      }
+    });
+    this.querySpans.set(taskId, rootSpan);
+
     this.activeReasoningChains.set(taskId, fullContext);
     this.emit('reasoning-started', { taskId, query, context: fullContext });
+    sink?.({ type: 'reasoning-started', taskId, query, context: fullContext });
 
     try {
       // Step 1: Security and guardrails check
-      await this.securityGuardrails.validateQuery(query, fullContext);
+      const safeQuery = await this.tracer.withSpan('guardrails.validate-query', rootSpan, async span => {
+        const checked = await this.securityGuardrails.validateQuery(query, fullContext);
+        span.setAttribute('guardrails.redacted', checked !== query);
+        return checked;
+      });
+      this.recorder?.begin(taskId, safeQuery);
+
+      this.throwIfCancelled(taskId);
 
-      // Step 2: Semantic cache check
-      const cachedResponse = await this.checkSemanticCache(query);
+      // Step 2: Semantic cache check (follow-up turns depend on history and cached answers
+      // are free text, so neither follow-ups nor structured queries use the cache)
+      const cacheable = fullContext.history!.length === 0 && !fullContext.outputSchema;
+      const cachedResponse = await this.tracer.withSpan('cache.lookup', rootSpan, async span => {
+        const cached = cacheable ? await this.checkSemanticCache(safeQuery) : null;
+        span.setAttributes({ 'cache.skipped': !cacheable, 'cache.hit': cached !== null });
+        return cached;
+      });
       if (cachedResponse) {
         this.emit('cache-hit', { taskId, query });
-        return {
-          response: cachedResponse.response,
+        sink?.({ type: 'cache-hit', taskId, query });
+
+        const checkedResponse = await this.securityGuardrails.validateResponse(cachedResponse.response, fullContext);
+        const cachedResult: QueryResult = {
+          response: checkedResponse,
           reasoningChain: [{
             agent: 'semantic-cache',
-            input: query,
-            output: cachedResponse.response,
+            input: safeQuery,
+            output: checkedResponse,
             confidence: cachedResponse.confidence,
             timestamp: new Date(),
             reasoning: 'Retrieved from semantic cache',
@@ -154,58 +477,143 @@ export class CognitiveOrchestrator extends EventEmitter {
           }],
           confidence: cachedResponse.confidence,
           cost: 0,
-          metadata: { cacheHit: true }
+          metadata: { cacheHit: true, taskId, query: safeQuery }
         };
+
+        rootSpan.setAttributes({ 'cache.hit': true, 'query.cost': 0, 'query.confidence': cachedResult.confidence });
+        this.recorder?.finish(fullContext, { result: cachedResult });
+        this.emit('reasoning-completed', { taskId, response: cachedResult.response, cost: 0 });
+        sink?.({ type: 'reasoning-completed', taskId, response: cachedResult.response, cost: 0, result: cachedResult });
+        return cachedResult;
       }
 
-      // Step 3: Task decomposition and agent selection
-      const selectedAgents = await this.selectOptimalAgents(query, fullContext);
-      
-      // Step 4: Multi-agent reasoning chain
-      const reasoningChain: ReasoningStep[] = [];
-      let currentQuery = query;
-      let totalCost = 0;
-
-      for (const agentId of selectedAgents) {
-        const agent = this.agents.get(agentId)!;
-        const step = await this.executeAgentReasoning(agent, currentQuery, fullContext);
-        
-        reasoningChain.push(step);
-        totalCost += agent.costPerQuery;
-        
-        // Use agent output as input for next agent if needed
-        currentQuery = step.output;
-        
-        this.emit('reasoning-step', { taskId, agent: agentId, step });
+      this.throwIfCancelled(taskId);
+
+      // Step 3: Recall related analyses from long-term memory
+      fullContext.memories = await this.tracer.withSpan('memory.recall', rootSpan, async span => {
+        const memories = context.memories || await this.memoryManager.retrieveRelevantMemories(safeQuery, fullContext);
+        span.setAttribute('memory.recalled', memories.length);
+        return memories;
+      });
+
+      this.throwIfCancelled(taskId);
+
+      // Step 4: Task decomposition and agent selection
+      const optimization = await this.tracer.withSpan('agents.select', rootSpan, async span => {
+        const selection = await this.selectOptimalAgents(safeQuery, fullContext);
+        span.setAttributes({
+          'agents.selected': selection.agents.join(','),
+          'cost.estimated': selection.estimatedCost,
+          'cost.budget': Number.isFinite(selection.budget) ? selection.budget : undefined,
+          'routing.tier': fullContext.metadata.routing?.tier,
+          'routing.score': fullContext.metadata.routing?.score
+        });
+        return selection;
+      });
+      const selectedAgents = optimization.agents;
+      // Planned calls hold their estimated cost so extra calls cannot spend it first
+      this.taskBudgets.set(taskId, { spent: 0, reserved: optimization.estimatedCost });
+      if (optimization.swaps.length > 0) {
+        this.emit('budget-adjusted', { taskId, swaps: optimization.swaps, explanation: optimization.explanation });
       }
+      
+      this.throwIfCancelled(taskId);
 
-      // Step 5: Synthesis and verification
-      const finalResponse = await this.synthesizeResponses(reasoningChain, fullContext);
-      const confidence = this.calculateConfidence(reasoningChain);
+      // Step 5: Multi-agent reasoning using the requested execution strategy
+      const { reasoningChain, finalSteps, totalCost: agentCost } = await this.executeStrategy(
+        selectedAgents,
+        safeQuery,
+        fullContext,
+        sink
+      );
 
-      // Step 6: Cache the result
-      await this.cacheResponse(query, finalResponse, confidence);
+      this.throwIfCancelled(taskId);
 
-      // Step 7: Update memory and learning
-      await this.memoryManager.updateLongTermMemory(query, finalResponse, reasoningChain);
+      // Step 6: Synthesis and verification
+      const structuredStep = fullContext.outputSchema ? this.selectStructuredStep(finalSteps, fullContext) : null;
+      const { finalResponse, confidence, synthesis } = await this.tracer.withSpan('synthesis', rootSpan, async span => {
+        const merged = structuredStep
+          ? this.structuredSynthesis(reasoningChain, structuredStep)
+          : await this.synthesizeResponses(safeQuery, reasoningChain, finalSteps, fullContext, sink);
+        const response = await this.securityGuardrails.validateResponse(merged.response, fullContext);
+        const synthesized = { finalResponse: response, confidence: this.calculateConfidence(finalSteps), synthesis: merged };
+        span.setAttributes({
+          'synthesis.inputs': finalSteps.length,
+          'synthesis.synthesizer': merged.synthesizer,
+          'synthesis.disagreements': merged.disagreements.length,
+          'query.confidence': synthesized.confidence
+        });
+        return synthesized;
+      });
+      const totalCost = agentCost + synthesis.cost;
 
-      this.emit('reasoning-completed', { taskId, response: finalResponse, cost: totalCost });
+      // Step 7: Cache the result
+      if (cacheable) {
+        await this.cacheResponse(safeQuery, finalResponse, confidence);
+      }
+
+      // Step 8: Update memory and learning; the answer is already paid for, so a store failure must not lose it
+      try {
+        await this.memoryManager.updateLongTermMemory(safeQuery, finalResponse, reasoningChain, fullContext);
+      } catch (error) {
+        this.emit('memory-write-failed', { taskId, error });
+      }
 
-      return {
+      const result: QueryResult = {
         response: finalResponse,
         reasoningChain,
         confidence,
         cost: totalCost,
+        data: structuredStep?.structured,
         metadata: {
+          taskId,
+          query: safeQuery,
           agentsUsed: selectedAgents,
+          executionStrategy: fullContext.executionStrategy,
+          costOptimization: optimization,
+          memoriesRecalled: fullContext.memories.map(memory => memory.id),
+          routing: fullContext.metadata.routing,
+          synthesis: { claims: synthesis.claims, disagreements: synthesis.disagreements, synthesizer: synthesis.synthesizer },
           processingTime: Date.now() - fullContext.metadata.startTime
         }
       };
 
+      if (fullContext.metadata.routing) {
+        this.logRoutingOutcome({
+          taskId,
+          query: safeQuery,
+          tier: fullContext.metadata.routing.predictedTier,
+          appliedTier: fullContext.metadata.routing.tier,
+          score: fullContext.metadata.routing.score,
+          confidence,
+          cost: totalCost,
+          timestamp: new Date()
+        });
+      }
+
+      rootSpan.setAttributes({
+        'cache.hit': false,
+        'query.cost': totalCost,
+        'query.confidence': confidence,
+        'query.tokens': reasoningChain.reduce((sum, step) => sum + (step.tokens || 0), 0),
+        'agents.used': selectedAgents.join(',')
+      });
+      this.recorder?.finish(fullContext, { result });
+      this.emit('reasoning-completed', { taskId, response: finalResponse, cost: totalCost });
+      sink?.({ type: 'reasoning-completed', taskId, response: finalResponse, cost: totalCost, result });
+
+      return result;
+
     } catch (error) {
+      rootSpan.recordException(error);
+      this.recorder?.finish(fullContext, { error });
       this.emit('reasoning-error', { taskId, error });
       throw error;
     } finally {
+      rootSpan.end();
+      this.approvalGate?.releaseTask(taskId);
+      this.querySpans.delete(taskId);
+      this.taskBudgets.delete(taskId);
       this.activeReasoningChains.delete(taskId);
     }
   }
@@ -213,14 +621,31 @@ export class CognitiveOrchestrator extends EventEmitter {
   private async selectOptimalAgents(
     query: string,
     context: ReasoningContext
-  ): Promise<string[]> {
+  ): Promise<CostOptimizationResult> {
+    const selectedAgents = context.agents?.length
+      ? [...context.agents]
+      : await this.routeByComplexity(query, context);
+
+    const callsPerAgent = context.executionStrategy === 'debate' ? 1 + (context.debateRounds || 0) : 1;
+    return this.costOptimizer.optimizeAgentSelection(
+      this.resolveAvailableAgents(selectedAgents),
+      context,
+      this.agents.enabled(),
+      callsPerAgent
+    );
+  }
+
+  private async routeByComplexity(query: string, context: ReasoningContext): Promise<string[]> {
     const queryComplexity = await this.analyzeQueryComplexity(query);
+    const predictedTier = tierForScore(queryComplexity, this.routingThresholds);
+    const tier = this.resolveComplexityTier(predictedTier, context);
     const selectedAgents: string[] = [];
+    context.metadata.routing = { classifier: this.complexityClassifier.name, score: queryComplexity, predictedTier, tier };
 
     // Router-first design pattern for cost optimization
-    if (context.complexity === 'simple' || queryComplexity < 0.3) {
+    if (tier === 'simple') {
       selectedAgents.push('glm-efficient');
-    } else if (context.complexity === 'medium' || queryComplexity < 0.7) {
+    } else if (tier === 'medium') {
       selectedAgents.push('claude-analyst');
       if (context.urgency === 'high') {
         selectedAgents.push('gemini-multimodal');
@@ -235,85 +660,683 @@ export class CognitiveOrchestrator extends EventEmitter {
       }
     }
 
-    return this.costOptimizer.optimizeAgentSelection(selectedAgents, context);
+    return selectedAgents;
+  }
+
+  /**
+   * A caller-declared simple or medium complexity caps the tier the classifier picks
+   */
+  private resolveComplexityTier(tier: ComplexityTier, context: ReasoningContext): ComplexityTier {
+    if (context.complexity === 'simple') return 'simple';
+    return context.complexity === 'medium' && tier === 'complex' ? 'medium' : tier;
+  }
+
+  /**
+   * Replace disabled agents with the best enabled agent sharing their specialization
+   */
+  private resolveAvailableAgents(agentIds: string[]): string[] {
+    const resolved: string[] = [];
+
+    for (const agentId of agentIds) {
+      let id: string | undefined = agentId;
+      if (!this.agents.isEnabled(agentId)) {
+        const original = this.agents.get(agentId);
+        id = original ? this.findFallbackAgent(original, [...agentIds, ...resolved])?.id : undefined;
+      }
+      if (id && !resolved.includes(id)) {
+        resolved.push(id);
+      }
+    }
+
+    if (resolved.length === 0) {
+      throw new Error(`No enabled agents available (requested ${agentIds.join(', ')})`);
+    }
+    return resolved;
+  }
+
+  private async executeStrategy(
+    agentIds: string[],
+    query: string,
+    context: ReasoningContext,
+    sink?: ReasoningStreamSink
+  ): Promise<{ reasoningChain: ReasoningStep[]; finalSteps: ReasoningStep[]; totalCost: number }> {
+    const reasoningChain: ReasoningStep[] = [];
+    let totalCost = 0;
+    // Looked up once: the registry can change while the query runs
+    const planned = agentIds.map(agentId => this.requireAgent(agentId));
+    const attempt = async (agent: AgentCapability, input: string, round?: number, reservation?: number) => {
+      const run = await this.runStructuredStep(agent, input, context, sink, round, reservation);
+      const verification = await this.verifyStep(query, run.step, context, sink);
+      reasoningChain.push(...run.failedAttempts, run.step);
+      totalCost += run.cost + verification.cost;
+      return { ...run, verification };
+    };
+    const run = async (agent: AgentCapability, input: string, round?: number) => {
+      const { step, answeredBy, verification } = await attempt(agent, input, round, agent.costPerQuery);
+      if (verification.passed || !this.verification.reask) {
+        return step;
+      }
+      if (answeredBy.costPerQuery > this.remainingBudget(context)) {
+        step.reasoning = `${step.reasoning}\nRe-ask skipped: ${step.agent} exceeds the remaining budget`;
+        return step;
+      }
+      // One re-ask with the verifier's findings; the revised step replaces the failed one
+      return (await attempt(answeredBy, this.constructReaskPrompt(input, step, verification), round)).step;
+    };
+
+    if (context.executionStrategy === 'parallel' || context.executionStrategy === 'debate') {
+      let answers = await Promise.all(planned.map(agent => run(agent, query, 0)));
+
+      const rounds = context.executionStrategy === 'debate' && planned.length > 1 ? context.debateRounds || 0 : 0;
+      for (let round = 1; round <= rounds; round++) {
+        const previous = answers;
+        answers = await Promise.all(planned.map((agent, i) =>
+          run(agent, this.constructDebatePrompt(query, previous[i], previous.filter((_, j) => j !== i)), round)
+        ));
+      }
+
+      return { reasoningChain, finalSteps: answers, totalCost };
+    }
+
+    // Sequential refinement: each agent builds on the previous agent's output
+    const finalSteps: ReasoningStep[] = [];
+    let currentQuery = query;
+    for (const agent of planned) {
+      const step = await run(agent, currentQuery);
+      finalSteps.push(step);
+      currentQuery = step.output;
+    }
+
+    return { reasoningChain, finalSteps, totalCost };
+  }
+
+  /**
+   * Run one agent with a latency-derived timeout and jittered retries, falling back to the
+   * cheapest affordable agent with an overlapping specialization when it keeps failing.
+   * Every attempt sent to a provider is charged, whether or not it succeeds
+   */
+  private async runAgentStep(
+    planned: AgentCapability,
+    input: string,
+    context: ReasoningContext,
+    sink?: ReasoningStreamSink,
+    round?: number,
+    reservation: number = 0 // Budget held for this call when it was planned at agent selection
+  ): Promise<{ step: ReasoningStep; failedAttempts: ReasoningStep[]; cost: number; answeredBy: AgentCapability }> {
+    const taskId = context.taskId;
+    const failedAttempts: ReasoningStep[] = [];
+    const tried: string[] = [];
+    let agent: AgentCapability | null = planned;
+    let lastError: unknown = null;
+    let held = reservation;
+    let cost = 0;
+    const charge = (charged: AgentCapability) => {
+      this.recordSpend(context, charged.costPerQuery, held);
+      cost += charged.costPerQuery;
+      held = 0;
+    };
+
+    while (agent) {
+      tried.push(agent.id);
+      await this.awaitApproval(agent, context, sink);
+      // A missing adapter is a configuration problem, so retrying the same agent cannot help
+      const attempts = this.providerAdapters.has(agent.modelType) ? this.resilience.maxRetries + 1 : 1;
+
+      for (let attempt = 1; attempt <= attempts; attempt++) {
+        if (attempt > 1) {
+          // Failed attempts were charged, so a retry has to fit what is left
+          if (agent.costPerQuery > this.remainingBudget(context)) break;
+          await this.abortable(taskId, this.sleep(this.backoffDelay(attempt - 1)));
+        }
+        this.throwIfCancelled(taskId);
+
+        const current: AgentCapability = agent;
+        const tokens: string[] = [];
+        const onToken = sink ? (token: string) => tokens.push(token) : undefined;
+
+        let step: ReasoningStep;
+        try {
+          step = await this.tracer.withSpan('agent.call', this.querySpans.get(taskId), async span => {
+            const completed = await this.abortable(taskId, this.withTimeout(
+              signal => this.executeAgentReasoning(current, input, context, onToken, signal),
+              current.latency * this.resilience.timeoutMultiplier,
+              `${current.id} timed out after ${current.latency * this.resilience.timeoutMultiplier}ms`,
+              this.taskControllers.get(taskId)?.signal
+            ));
+            span.setAttributes({
+              'agent.model': completed.model,
+              'agent.tokens': completed.tokens,
+              'agent.cost': current.costPerQuery,
+              'agent.confidence': completed.confidence
+            });
+            return completed;
+          }, { 'agent.id': current.id, 'agent.attempt': attempt, 'agent.round': round });
+        } catch (error) {
+          lastError = error;
+          this.recorder?.abandonCalls(taskId, current.id, error);
+          if (this.providerAdapters.has(current.modelType)) {
+            charge(current);
+          }
+          if (error instanceof TaskCancelledError) throw error;
+          const failed = this.failedAttemptStep(current, input, error, attempt, round);
+          failedAttempts.push(failed);
+          this.emit('agent-attempt-failed', { taskId, agent: current.id, attempt, error });
+          this.emit('reasoning-step', { taskId, agent: current.id, step: failed });
+          sink?.({ type: 'reasoning-step', taskId, agent: current.id, step: failed });
+          continue;
+        }
+
+        const rawOutput = step.output;
+        step.output = await this.securityGuardrails.validateResponse(step.output, context);
+        step.round = round;
+        charge(current);
+
+        for (const token of step.output === rawOutput ? tokens : [step.output]) {
+          sink?.({ type: 'token', taskId, agent: current.id, token });
+        }
+
+        this.emit('reasoning-step', { taskId, agent: current.id, step });
+        sink?.({ type: 'reasoning-step', taskId, agent: current.id, step });
+        return { step, failedAttempts, cost, answeredBy: current };
+      }
+
+      agent = tried.length <= this.resilience.maxFallbacks
+        ? this.findFallbackAgent(agent, tried, this.remainingBudget(context) + held)
+        : null;
+      if (agent) {
+        this.emit('agent-fallback', { taskId, from: tried[tried.length - 1], to: agent.id });
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Run an agent step and, when the context requests an output schema, hold its output to it:
+   * near-misses are repaired locally, anything else is re-asked with the validation errors
+   */
+  private async runStructuredStep(
+    agent: AgentCapability,
+    input: string,
+    context: ReasoningContext,
+    sink?: ReasoningStreamSink,
+    round?: number,
+    reservation?: number
+  ): Promise<{ step: ReasoningStep; failedAttempts: ReasoningStep[]; cost: number; answeredBy: AgentCapability }> {
+    const failedAttempts: ReasoningStep[] = [];
+    const maxReasks = this.structuredOutput.maxReasks ?? 1;
+    let cost = 0;
+    let prompt = input;
+
+    for (let reask = 0; ; reask++) {
+      const run = await this.runAgentStep(agent, prompt, context, sink, round, reask === 0 ? reservation : 0);
+      const { step, answeredBy } = run;
+      failedAttempts.push(...run.failedAttempts);
+      cost += run.cost;
+      if (!context.outputSchema) {
+        return { step, failedAttempts, cost, answeredBy };
+      }
+
+      const parsed = parseStructuredOutput(step.output, context.outputSchema);
+      if (parsed.valid) {
+        step.structured = parsed.value;
+        step.output = JSON.stringify(parsed.value);
+        if (parsed.repaired) {
+          step.reasoning = `${step.reasoning}\nOutput repaired to match the schema`;
+        }
+        return { step, failedAttempts, cost, answeredBy };
+      }
+
+      step.confidence = 0;
+      step.verification = false;
+      step.reasoning = `${step.reasoning}\nOutput did not match the schema: ${parsed.errors.join('; ')}`;
+      failedAttempts.push(step);
+      this.emit('schema-validation-failed', { taskId: context.taskId, agent: step.agent, errors: parsed.errors, attempt: reask + 1 });
+
+      if (reask >= maxReasks) {
+        throw new StructuredOutputError(step.agent, step.output, parsed.errors, reask + 1);
+      }
+      if (answeredBy.costPerQuery > this.remainingBudget(context)) {
+        const skipped = `Re-ask skipped: ${step.agent} exceeds the remaining budget`;
+        throw new StructuredOutputError(step.agent, step.output, [...parsed.errors, skipped], reask + 1);
+      }
+      // Stay with the agent that answered, which may be a fallback
+      agent = answeredBy;
+      prompt = buildSchemaReaskPrompt(input, step.output, parsed.errors);
+    }
+  }
+
+  /**
+   * Hold sensitive or expensive agent calls, including verifier and synthesizer calls,
+   * until approved; rejection aborts the query
+   */
+  private async awaitApproval(
+    agent: AgentCapability,
+    context: ReasoningContext,
+    sink?: ReasoningStreamSink
+  ): Promise<void> {
+    const gate = this.approvalGate;
+    if (!gate || gate.requiresApproval(agent, context).length === 0) return;
+
+    const taskId = context.taskId;
+    await this.tracer.withSpan('approval.wait', this.querySpans.get(taskId), () => this.abortable(
+      taskId,
+      gate.checkpoint(agent, context, request => sink?.({ type: 'approval-required', taskId, request }))
+    ),
+      { 'agent.id': agent.id }
+    );
+  }
+
+  /**
+   * Check a step with the verifier, recording the verdict on the step itself.
+   * A verifier call that fails or times out falls back to the local heuristics
+   */
+  private async verifyStep(
+    query: string,
+    step: ReasoningStep,
+    context: ReasoningContext,
+    sink?: ReasoningStreamSink
+  ): Promise<VerificationResult> {
+    const taskId = context.taskId;
+    const auxiliary = this.resolveAuxiliaryAgent(this.verification.verifierAgentId, context, sink);
+    const verifier = new StepVerifier(auxiliary);
+    let result: VerificationResult;
+    try {
+      result = await this.tracer.withSpan('agent.verify', this.querySpans.get(taskId), async span => {
+        const verified = await verifier.verify(query, step, context);
+        span.setAttributes({
+          'verification.passed': verified.passed,
+          'verification.verifier': verified.verifier,
+          'verification.cost': verified.cost
+        });
+        return verified;
+      }, { 'agent.id': step.agent });
+    } catch (error) {
+      if (error instanceof TaskCancelledError || error instanceof ApprovalRejectedError || !auxiliary) throw error;
+      this.emit('verifier-failed', { taskId, agent: step.agent, verifier: auxiliary.agent.id, error });
+      result = { ...heuristicVerification(query, step), cost: auxiliary.agent.costPerQuery };
+    }
+
+    step.verification = result.passed;
+    if (!result.passed) {
+      step.confidence *= 1 - (this.verification.failurePenalty ?? 0.5);
+      step.reasoning = `${step.reasoning}\nVerification failed: ${result.issues.join('; ')}`;
+    }
+
+    this.emit('step-verified', { taskId, agent: step.agent, step, result });
+    sink?.({ type: 'step-verified', taskId, agent: step.agent, step, result });
+    return result;
+  }
+
+  /**
+   * Verifier or synthesizer agent for a task; null, so local heuristics are used, when the agent
+   * is unknown, disabled, lacks an adapter or exceeds the remaining budget.
+   * Its calls wait at the approval gate like agent steps, time out like them and are charged once sent.
+   */
+  private resolveAuxiliaryAgent(
+    agentId: string | undefined,
+    context: ReasoningContext,
+    sink?: ReasoningStreamSink
+  ): { agent: AgentCapability; adapter: ModelProviderAdapter } | null {
+    const agent = agentId && this.agents.isEnabled(agentId) ? this.agents.get(agentId)! : null;
+    const adapter = agent ? this.providerAdapters.get(agent.modelType) : undefined;
+    if (!agent || !adapter || agent.costPerQuery > this.remainingBudget(context)) return null;
+
+    const taskId = context.taskId;
+    const timeoutMs = agent.latency * this.resilience.timeoutMultiplier;
+    return {
+      agent,
+      adapter: {
+        modelType: adapter.modelType,
+        complete: async request => {
+          await this.awaitApproval(agent, context, sink);
+          try {
+            return await this.abortable(taskId, this.withTimeout(
+              signal => this.invokeAdapter(adapter, { ...request, signal }),
+              timeoutMs,
+              `${agent.id} timed out after ${timeoutMs}ms`,
+              this.taskControllers.get(taskId)?.signal
+            ));
+          } catch (error) {
+            this.recorder?.abandonCalls(taskId, agent.id, error);
+            throw error;
+          } finally {
+            this.recordSpend(context, agent.costPerQuery);
+          }
+        }
+      }
+    };
+  }
+
+  private constructReaskPrompt(input: string, step: ReasoningStep, verification: VerificationResult): string {
+    return `${input}
+
+Your previous answer:
+${step.output}
+
+A verifier rejected it for these reasons:
+${verification.issues.map(issue => `- ${issue}`).join('\n')}
+
+Give a corrected answer that addresses these issues.`;
+  }
+
+  private failedAttemptStep(
+    agent: AgentCapability,
+    input: string,
+    error: unknown,
+    attempt: number,
+    round?: number
+  ): ReasoningStep {
+    const message = error instanceof Error ? error.message : String(error);
+
+    return {
+      agent: agent.id,
+      input,
+      output: '',
+      confidence: 0,
+      timestamp: new Date(),
+      reasoning: `Attempt ${attempt} failed: ${message}`,
+      verification: false,
+      round
+    };
+  }
+
+  /**
+   * An enabled agent sharing a specialization term with `agent`: within a budget the cheapest
+   * affordable one, otherwise the most reliable
+   */
+  private findFallbackAgent(
+    agent: AgentCapability,
+    excluded: string[],
+    budget?: number
+  ): AgentCapability | null {
+    const candidates = Array.from(this.agents.enabled().values()).filter(candidate =>
+      !excluded.includes(candidate.id) &&
+      (budget === undefined || candidate.costPerQuery <= budget) &&
+      this.providerAdapters.has(candidate.modelType) &&
+      sharedSpecializationTerms(agent, candidate).length > 0
+    );
+
+    candidates.sort((a, b) =>
+      (budget === undefined ? 0 : a.costPerQuery - b.costPerQuery) ||
+      b.reliability - a.reliability ||
+      a.latency - b.latency
+    );
+    return candidates[0] || null;
+  }
+
+  /**
+   * Charge a call to the tenant and to the running task, releasing what was reserved for it
+   */
+  private recordSpend(context: ReasoningContext, cost: number, reservation: number = 0): void {
+    this.costOptimizer.recordSpend(context.tenantId, cost);
+    const budget = this.taskBudgets.get(context.taskId);
+    if (budget) {
+      budget.spent += cost;
+      budget.reserved = Math.max(0, budget.reserved - reservation);
+    }
+  }
+
+  /**
+   * Registry changes apply at runtime, so a selected agent may be gone by the time it is planned
+   */
+  private requireAgent(agentId: string): AgentCapability {
+    const agent = this.agents.get(agentId);
+    if (!agent) {
+      throw new Error(`Agent ${agentId} was removed from the registry before the query could run it`);
+    }
+    return agent;
+  }
+
+  /**
+   * What the task may spend on calls it did not plan for at agent selection
+   */
+  private remainingBudget(context: ReasoningContext): number {
+    const budget = this.taskBudgets.get(context.taskId);
+    return this.costOptimizer.remainingBudget(context, budget?.spent, budget?.reserved);
+  }
+
+  private backoffDelay(retry: number): number {
+    const exponential = this.resilience.baseBackoffMs * 2 ** (retry - 1);
+    // Full jitter keeps concurrent retries from hitting a provider in lockstep
+    return Math.random() * Math.min(exponential, this.resilience.maxBackoffMs);
+  }
+
+  private throwIfCancelled(taskId: string): void {
+    const signal = this.taskControllers.get(taskId)?.signal;
+    if (signal?.aborted) {
+      throw new TaskCancelledError(taskId, signal.reason);
+    }
+  }
+
+  /**
+   * Settle with TaskCancelledError as soon as the task is cancelled; the underlying work is left to finish
+   */
+  private abortable<T>(taskId: string, promise: Promise<T>): Promise<T> {
+    const signal = this.taskControllers.get(taskId)?.signal;
+    if (!signal) return promise;
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        promise.catch(() => undefined);
+        reject(new TaskCancelledError(taskId, signal.reason));
+      };
+      if (signal.aborted) return onAbort();
+
+      signal.addEventListener('abort', onAbort, { once: true });
+      promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  /**
+   * Run `call` with a signal that aborts when it times out or `parent` aborts
+   */
+  private withTimeout<T>(
+    call: (signal: AbortSignal) => Promise<T>,
+    ms: number,
+    message: string,
+    parent?: AbortSignal
+  ): Promise<T> {
+    const controller = new AbortController();
+    const forwardAbort = () => controller.abort(parent?.reason);
+    if (parent?.aborted) forwardAbort();
+    parent?.addEventListener('abort', forwardAbort, { once: true });
+
+    let timer: ReturnType<typeof setTimeout>;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new Error(message);
+        controller.abort(error);
+        reject(error);
+      }, ms);
+    });
+
+    return Promise.race([call(controller.signal), timeout]).finally(() => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', forwardAbort);
+    });
+  }
+
+  private constructDebatePrompt(query: string, own: ReasoningStep, peers: ReasoningStep[]): string {
+    const peerAnswers = peers.map(peer => `[${peer.agent}]\n${peer.output}`).join('\n\n');
+
+    return `${query}
+
+Your previous answer:
+${own.output}
+
+Other agents answered:
+${peerAnswers}
+
+Critique the other answers, point out errors or gaps, and give your revised answer.`;
   }
 
   private async executeAgentReasoning(
     agent: AgentCapability,
     query: string,
-    context: ReasoningContext
+    context: ReasoningContext,
+    onToken?: TokenHandler,
+    signal?: AbortSignal
   ): Promise<ReasoningStep> {
     const startTime = Date.now();
     
-    // Simulate API call to actual AI model
-    const response = await this.callAgentAPI(agent, query, context);
+    const { response, prompt } = await this.callAgentAPI(agent, query, context, onToken, signal);
     
     return {
       agent: agent.id,
       input: query,
       output: response.output,
-      confidence: response.confidence,
+      confidence: await this.calibrator.calibrateAndLog(context.taskId, response.confidence, agent.id, context.domain),
       timestamp: new Date(),
       reasoning: response.reasoning,
-      verification: response.verification
+      verification: response.verification,
+      model: response.model,
+      tokens: response.usage.totalTokens,
+      promptTemplate: prompt.template
     };
   }
 
   private async callAgentAPI(
     agent: AgentCapability,
     query: string,
-    context: ReasoningContext
-  ): Promise<{
-    output: string;
-    confidence: number;
-    reasoning: string;
-    verification: boolean;
-  }> {
-    // This would integrate with actual AI model APIs
-    // For now, return structured response based on agent specialization
-    
+    context: ReasoningContext,
+    onToken?: TokenHandler,
+    signal?: AbortSignal
+  ): Promise<{ response: ModelProviderResponse; prompt: RenderedPrompt }> {
+    const adapter = this.providerAdapters.get(agent.modelType);
+    if (!adapter) {
+      throw new Error(`No model provider adapter registered for ${agent.modelType}`);
+    }
+
     const prompt = this.constructAgentPrompt(agent, query, context);
-    
-    // Simulate API response with agent-specific processing
-    return {
-      output: `${agent.name} processed: ${query}`,
-      confidence: agent.reliability,
-      reasoning: `Applied ${agent.specialization.join(', ')} to analyze the query`,
-      verification: true
-    };
+    const response = await this.invokeAdapter(adapter, { agent, query, prompt: prompt.text, context, signal }, onToken);
+    return { response, prompt };
+  }
+
+  /**
+   * Every provider call goes through here so the recorder sees it and replay can serve it
+   */
+  private async invokeAdapter(
+    adapter: ModelProviderAdapter,
+    request: ModelProviderRequest,
+    onToken?: TokenHandler
+  ): Promise<ModelProviderResponse> {
+    const call = this.recorder?.startCall(request.context.taskId, request);
+
+    try {
+      let response: ModelProviderResponse;
+      if (!onToken) {
+        response = await adapter.complete(request);
+      } else if (adapter.stream) {
+        response = await adapter.stream(request, onToken);
+      } else {
+        // Adapters without streaming support deliver their output as a single chunk
+        response = await adapter.complete(request);
+        onToken(response.output);
+      }
+      call?.succeed(response);
+      return response;
+    } catch (error) {
+      call?.fail(error);
+      throw error;
+    }
   }
 
   private constructAgentPrompt(
     agent: AgentCapability,
     query: string,
     context: ReasoningContext
-  ): string {
-    return `
-As a ${agent.name} specialized in ${agent.specialization.join(', ')}, 
-analyze the following query in the context of ${context.domain}:
+  ): RenderedPrompt {
+    const prompt = this.promptTemplates.render('orchestrator.agent', {
+      agentName: agent.name,
+      specializations: agent.specialization.join(', '),
+      domain: context.domain,
+      query,
+      complexity: context.complexity,
+      urgency: context.urgency,
+      memories: this.formatMemories(context.memories),
+      history: this.formatHistory(agent, context)
+    }, {
+      agentId: agent.id,
+      domain: context.domain,
+      locale: context.locale,
+      version: context.promptVersions?.['orchestrator.agent']
+    });
+
+    return context.outputSchema
+      ? { ...prompt, text: `${prompt.text}\n${buildSchemaInstructions(context.outputSchema)}` }
+      : prompt;
+  }
+
+  private formatMemories(memories: MemoryRecord[] = []): string {
+    if (memories.length === 0) return '';
 
-Query: ${query}
+    const entries = memories.map((memory, i) =>
+      `${i + 1}. [${memory.timestamp.toISOString()}] Q: ${memory.query}\n   A: ${memory.response.slice(0, 500)}`
+    );
+    return `\nRelevant prior analyses:\n${entries.join('\n')}\n`;
+  }
 
-Context:
-- Complexity: ${context.complexity}
-- Urgency: ${context.urgency}
-- Domain: ${context.domain}
+  private formatHistory(agent: AgentCapability, context: ReasoningContext): string {
+    const budget = historyBudgetFor(agent.contextWindow, context.maxHistoryTokens);
+    const turns = trimHistory(context.history || [], budget);
+    if (turns.length === 0) return '';
 
-Provide a detailed analysis with reasoning steps and confidence level.
-`;
+    const entries = turns.map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`);
+    return `\nConversation so far:\n${entries.join('\n')}\n`;
   }
 
+  /**
+   * Structured answers are not merged: sequential runs keep the last refinement,
+   * other strategies the most confident answer
+   */
+  private selectStructuredStep(finalSteps: ReasoningStep[], context: ReasoningContext): ReasoningStep {
+    return context.executionStrategy === 'sequential'
+      ? finalSteps[finalSteps.length - 1]
+      : finalSteps.reduce((best, step) => step.confidence > best.confidence ? step : best);
+  }
+
+  private structuredSynthesis(reasoningChain: ReasoningStep[], step: ReasoningStep): SynthesisResult {
+    return {
+      response: step.output,
+      claims: [{ text: step.output, steps: [reasoningChain.indexOf(step)] }],
+      disagreements: [],
+      synthesizer: 'structured',
+      cost: 0
+    };
+  }
+
+  /**
+   * Merge the final steps into one cited answer; citations index into the full reasoning chain
+   */
   private async synthesizeResponses(
+    query: string,
     reasoningChain: ReasoningStep[],
-    context: ReasoningContext
-  ): Promise<string> {
-    // Combine outputs from multiple agents into coherent response
-    const responses = reasoningChain.map(step => step.output);
-    const synthesis = responses.join('\n\nIntegrated Analysis:\n');
-    
-    return `Comprehensive Analysis:\n${synthesis}`;
+    finalSteps: ReasoningStep[],
+    context: ReasoningContext,
+    sink?: ReasoningStreamSink
+  ): Promise<SynthesisResult> {
+    const auxiliary = this.resolveAuxiliaryAgent(this.synthesis.synthesizerAgentId, context, sink);
+    const steps = finalSteps.map(step => ({ index: reasoningChain.indexOf(step), step }));
+
+    try {
+      return await new ResponseSynthesizer(auxiliary).synthesize(query, steps, context);
+    } catch (error) {
+      if (error instanceof TaskCancelledError || error instanceof ApprovalRejectedError || !auxiliary) throw error;
+      // The step answers are already paid for, so merge them locally rather than lose them
+      this.emit('synthesizer-failed', { taskId: context.taskId, synthesizer: auxiliary.agent.id, error });
+      const merged = await new ResponseSynthesizer().synthesize(query, steps, context);
+      return { ...merged, cost: auxiliary.agent.costPerQuery };
+    }
   }
 
+  /**
+   * Step confidences are already calibrated, so the aggregate is not calibrated again
+   */
   private calculateConfidence(reasoningChain: ReasoningStep[]): number {
     if (reasoningChain.length === 0) return 0;
     
@@ -324,15 +1347,14 @@ Provide a detailed analysis with reasoning steps and confidence level.
   }
 
   private async analyzeQueryComplexity(query: string): Promise<number> {
-    // Simple complexity analysis based on query characteristics
-    let complexity = 0;
-    
-    if (query.length > 200) complexity += 0.2;
-    if (query.includes('analyze') || query.includes('complex')) complexity += 0.3;
-    if (query.includes('?')) complexity += 0.1;
-    if (query.split(' ').length > 20) complexity += 0.2;
-    
-    return Math.min(complexity, 1.0);
+    return Math.min(Math.max(this.complexityClassifier.score(query), 0), 1);
+  }
+
+  private logRoutingOutcome(outcome: RoutingOutcome): void {
+    this.routingOutcomes.push(outcome);
+    if (this.routingOutcomes.length > MAX_ROUTING_OUTCOMES) {
+      this.routingOutcomes.shift();
+    }
   }
 
   private requiresMultimodalProcessing(query: string): boolean {
@@ -384,6 +1406,119 @@ Provide a detailed analysis with reasoning steps and confidence level.
     return `task_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
+  /**
+   * Add a new agent; pair it with registerProviderAdapter for its modelType
+   */
+  registerAgent(agent: AgentCapability): void {
+    this.agents.register(agent);
+    this.emit('agent-registered', { agentId: agent.id });
+  }
+
+  updateAgent(agentId: string, changes: Partial<Omit<AgentCapability, 'id'>>): AgentCapability {
+    const agent = this.agents.update(agentId, changes);
+    this.emit('agent-updated', { agentId });
+    return agent;
+  }
+
+  disableAgent(agentId: string): void {
+    this.agents.disable(agentId);
+    this.emit('agent-disabled', { agentId });
+  }
+
+  enableAgent(agentId: string): void {
+    this.agents.enable(agentId);
+    this.emit('agent-enabled', { agentId });
+  }
+
+  removeAgent(agentId: string): void {
+    this.agents.remove(agentId);
+    this.emit('agent-removed', { agentId });
+  }
+
+  /**
+   * Register or update agents from a JSON or YAML definition file
+   */
+  loadAgentDefinitions(filePath: string): AgentCapability[] {
+    const agents = this.agents.loadFromFile(filePath);
+    this.emit('agents-loaded', { filePath, agentIds: agents.map(agent => agent.id) });
+    return agents;
+  }
+
+  listAgents(): RegisteredAgent[] {
+    return this.agents.list();
+  }
+
+  /**
+   * Start a multi-turn conversation whose history flows into agent prompts
+   */
+  createSession(options: SessionOptions = {}): ConversationSession {
+    return new ConversationSession(this, options);
+  }
+
+  /**
+   * Resume a conversation from ConversationSession.toJSON() output
+   */
+  resumeSession(data: SerializedSession): ConversationSession {
+    return ConversationSession.fromJSON(this, data);
+  }
+
+  /**
+   * Attach user feedback to a logged routing outcome
+   */
+  recordRoutingFeedback(taskId: string, feedback: 'positive' | 'negative'): void {
+    const outcome = this.routingOutcomes.find(entry => entry.taskId === taskId);
+    if (!outcome) {
+      throw new Error(`No routing outcome logged for task ${taskId}`);
+    }
+    outcome.feedback = feedback;
+  }
+
+  getRoutingOutcomes(): RoutingOutcome[] {
+    return this.routingOutcomes.map(outcome => ({ ...outcome }));
+  }
+
+  /**
+   * Judge a task's answer; every confidence reported for it becomes a calibration sample
+   */
+  recordConfidenceOutcome(taskId: string, correct: boolean): Promise<number> {
+    return this.calibrator.recordOutcome(taskId, correct);
+  }
+
+  getCalibrator(): ConfidenceCalibrator {
+    return this.calibrator;
+  }
+
+  /**
+   * Retrain the active classifier from logged routing outcomes
+   */
+  trainComplexityClassifier(
+    options: { minConfidence?: number; costCeiling?: number } = {}
+  ): { samples: number; loss: number } {
+    const classifier = this.complexityClassifier as Partial<TrainableComplexityClassifier>;
+    if (typeof classifier.train !== 'function') {
+      throw new Error(`Complexity classifier ${this.complexityClassifier.name} is not trainable`);
+    }
+
+    const samples = this.routingOutcomes.map(outcome => outcomeToTrainingSample(outcome, options));
+    const { loss } = classifier.train(samples);
+    return { samples: samples.length, loss };
+  }
+
+  setComplexityClassifier(classifier: ComplexityClassifier): void {
+    this.complexityClassifier = classifier;
+  }
+
+  getPromptTemplates(): PromptTemplateRegistry {
+    return this.promptTemplates;
+  }
+
+  /**
+   * Register or replace the adapter used for a model type
+   */
+  registerProviderAdapter(adapter: ModelProviderAdapter): void {
+    this.providerAdapters.set(adapter.modelType, adapter);
+  }
+
   // Public methods for monitoring and control
   getActiveReasoningChains(): ReasoningContext[] {
     return Array.from(this.activeReasoningChains.values());
@@ -404,6 +1539,111 @@ Provide a detailed analysis with reasoning steps and confidence level.
     };
   }
 
+  /**
+   * Re-run a recorded task offline, serving every agent, verifier and synthesizer call from the
+   * recording. Agents that were registered at runtime are restored from the recorded definitions,
+   * and the recorded memories stand in for recall so prompts are rebuilt unchanged.
+   */
+  static async replay(
+    recording: RecordedTask,
+    options: Omit<CognitiveOrchestratorOptions, 'providerAdapters' | 'recordingPath'> = {}
+  ): Promise<ReplayResult> {
+    const responses = new ReplayResponses(recording);
+    const orchestrator = new CognitiveOrchestrator({ ...options, providerAdapters: [] });
+
+    for (const { agent } of recording.calls) {
+      if (!orchestrator.agents.get(agent.id)) {
+        orchestrator.registerAgent(agent);
+      }
+    }
+    const modelTypes = Array.from(new Set(orchestrator.listAgents().map(agent => agent.modelType)));
+    responses.adapters(modelTypes).forEach(adapter => orchestrator.registerProviderAdapter(adapter));
+
+    const memories = (recording.context.memories || []).map(memory => ({ ...memory, timestamp: new Date(memory.timestamp) }));
+    let result: QueryResult | undefined;
+    let error: Error | undefined;
+    try {
+      result = await orchestrator.processComplexQuery(recording.query, { ...recording.context, memories });
+    } catch (failure) {
+      error = failure instanceof Error ? failure : new Error(String(failure));
+    }
+
+    const recordedAgents = recording.result?.agentsUsed || [];
+    const replayedAgents: string[] = result?.metadata.agentsUsed || [];
+    return {
+      recording,
+      result,
+      error,
+      divergences: responses.getDivergences(),
+      unusedCalls: responses.unusedCalls(),
+      routingChanged: recordedAgents.join(',') !== replayedAgents.join(',')
+    };
+  }
+
+  /**
+   * Wait until recorded tasks have been appended to the recording log
+   */
+  flushRecordings(): Promise<void> {
+    return this.recorder?.flush() || Promise.resolve();
+  }
+
+  /**
+   * Wait until finished query traces have been written by the exporter
+   */
+  flushTraces(): Promise<void> {
+    return this.tracer.flush();
+  }
+
+  /**
+   * Cancel a queued or running query; returns false when the task is unknown or already finished
+   */
+  cancel(taskId: string, reason: string = 'Cancelled by request'): boolean {
+    const controller = this.taskControllers.get(taskId);
+    if (!controller || controller.signal.aborted) return false;
+
+    controller.abort(new Error(reason));
+    this.emit('task-cancelled', { taskId, reason });
+    return true;
+  }
+
+  getQueuedQueries(): QueuedQuery[] {
+    return this.scheduler.getQueued();
+  }
+
+  approveRequest(requestId: string, options: { by?: string; comment?: string } = {}): void {
+    this.requireApprovalGate().approve(requestId, options);
+  }
+
+  rejectRequest(requestId: string, options: { by?: string; comment?: string } = {}): void {
+    this.requireApprovalGate().reject(requestId, options);
+  }
+
+  getPendingApprovals(): ApprovalRequest[] {
+    return this.approvalGate?.getPending() || [];
+  }
+
+  getApprovalAuditTrail(): ApprovalAuditEntry[] {
+    return this.approvalGate?.getAuditTrail() || [];
+  }
+
+  private requireApprovalGate(): ApprovalGate {
+    if (!this.approvalGate) {
+      throw new Error('No approval policy configured');
+    }
+    return this.approvalGate;
+  }
+
+  getSecurityAuditLog(): GuardrailAuditEvent[] {
+    return this.securityGuardrails.getAuditLog();
+  }
+
+  getTenantSpend(tenantId?: string): { spent: number; cap: number } {
+    return {
+      spent: this.costOptimizer.getTenantSpend(tenantId),
+      cap: this.costOptimizer.getTenantCap(tenantId)
+    };
+  }
+
   getAgentPerformanceMetrics(): Record<string, {
     totalQueries: number;
     averageLatency: number;
@@ -412,8 +1652,8 @@ Provide a detailed analysis with reasoning steps and confidence level.
   }> {
     const metrics: Record<string, any> = {};
     
-    this.agents.forEach((agent, id) => {
-      metrics[id] = {
+    this.agents.list().forEach(agent => {
+      metrics[agent.id] = {
         totalQueries: 0, // Would track in production
         averageLatency: agent.latency,
         reliability: agent.reliability,
@@ -425,30 +1665,3 @@ Provide a detailed analysis with reasoning steps and confidence level.
   }
 }
 
-// Supporting classes
-class CostOptimizer {
-  optimizeAgentSelection(agents: string[], context: ReasoningContext): string[] {
-    // Implement cost optimization logic
-    return agents;
-  }
-}
-
-class SecurityGuardrails {
-  async validateQuery(query: string, context: ReasoningContext): Promise<void> {
-    // Implement security validation
-    if (context.confidentialityLevel === 'secret' && query.includes('public')) {
-      throw new Error('Security violation: Cannot process secret data in public context');
-    }
-  }
-}
-
-class StateMemoryManager {
-  async updateLongTermMemory(
-    query: string,
-    response: string,
-    reasoningChain: ReasoningStep[]
-  ): Promise<void> {
-    // Implement persistent memory updates
-    console.log('Updating long-term memory with reasoning chain');
-  }
-}
\ No newline at end of file
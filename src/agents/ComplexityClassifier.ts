@@ -0,0 +1,242 @@
+/**
+ * Query Complexity Classifiers for SovereigntyOS AI
+ * Scores queries for agent routing and learns from logged routing outcomes
+ */
+
+export type ComplexityTier = 'simple' | 'medium' | 'complex';
+
+export interface ComplexityClassifier {
+  readonly name: string;
+  /**
+   * Complexity score in [0, 1]
+   */
+  score(query: string): number;
+}
+
+export interface TrainableComplexityClassifier extends ComplexityClassifier {
+  train(samples: TrainingSample[]): { loss: number };
+}
+
+export interface RoutingThresholds {
+  simple: number; // Scores below this route to the simple tier
+  complex: number; // Scores at or above this route to the complex tier
+}
+
+export const DEFAULT_ROUTING_THRESHOLDS: RoutingThresholds = { simple: 0.3, complex: 0.7 };
+
+export interface RoutingOutcome {
+  taskId: string;
+  query: string;
+  tier: ComplexityTier; // The classifier's own prediction, which training learns from
+  appliedTier: ComplexityTier; // After the caller's complexity cap; may differ from tier
+  score: number;
+  confidence: number;
+  cost: number;
+  feedback?: 'positive' | 'negative';
+  timestamp: Date;
+}
+
+export interface TrainingSample {
+  query: string;
+  target: number; // Desired complexity score in [0, 1]
+  weight?: number;
+}
+
+export interface LabelledQuery {
+  query: string;
+  tier: ComplexityTier;
+}
+
+export interface RoutingEvaluation {
+  classifier: string;
+  accuracy: number;
+  total: number;
+  confusion: Record<ComplexityTier, Record<ComplexityTier, number>>;
+}
+
+const TIER_VALUES: Record<ComplexityTier, number> = { simple: 0, medium: 0.5, complex: 1 };
+
+export function tierForScore(score: number, thresholds: RoutingThresholds = DEFAULT_ROUTING_THRESHOLDS): ComplexityTier {
+  if (score < thresholds.simple) return 'simple';
+  if (score < thresholds.complex) return 'medium';
+  return 'complex';
+}
+
+/**
+ * The original length and keyword heuristic
+ */
+export class HeuristicComplexityClassifier implements ComplexityClassifier {
+  readonly name = 'heuristic';
+
+  score(query: string): number {
+    let complexity = 0;
+
+    if (query.length > 200) complexity += 0.2;
+    if (query.includes('analyze') || query.includes('complex')) complexity += 0.3;
+    if (query.includes('?')) complexity += 0.1;
+    if (query.split(' ').length > 20) complexity += 0.2;
+
+    return Math.min(complexity, 1.0);
+  }
+}
+
+const ANALYTICAL_TERMS = /\b(analy[sz]e|analysis|complex|evaluate|assess|compare|strateg\w*|implications?|trade-?offs?|impact|forecast|recommend\w*)\b/gi;
+const CONDITIONAL_TERMS = /\b(if|whether|would|could|should|assuming|scenario)\b/gi;
+
+/**
+ * Text features used by the logistic model, each scaled to roughly [0, 1]
+ */
+export function extractComplexityFeatures(query: string): number[] {
+  const words = query.trim().split(/\s+/).filter(Boolean);
+  const averageWordLength = words.reduce((sum, word) => sum + word.length, 0) / Math.max(words.length, 1);
+
+  return [
+    Math.min(Math.log1p(query.length) / Math.log1p(1000), 1),
+    Math.min(words.length / 50, 1),
+    Math.min((query.match(/\?/g) || []).length / 3, 1),
+    Math.min((query.match(ANALYTICAL_TERMS) || []).length / 3, 1),
+    Math.min((query.match(CONDITIONAL_TERMS) || []).length / 3, 1),
+    Math.min((query.match(/,|;|\band\b/g) || []).length / 6, 1),
+    /\d/.test(query) ? 1 : 0,
+    Math.min(averageWordLength / 10, 1)
+  ];
+}
+
+/**
+ * Logistic regression over extractComplexityFeatures, trainable with soft targets.
+ * The default weights roughly reproduce the heuristic before any training.
+ */
+export class LogisticComplexityClassifier implements TrainableComplexityClassifier {
+  readonly name = 'logistic';
+  private weights: number[];
+  private bias: number;
+
+  constructor(model: { weights?: number[]; bias?: number } = {}) {
+    this.weights = model.weights ? [...model.weights] : [1.2, 1.5, 0.6, 2.5, 0.8, 0.6, 0.1, 0.4];
+    this.bias = model.bias ?? -2.6;
+  }
+
+  score(query: string): number {
+    const features = extractComplexityFeatures(query);
+    return this.sigmoid(features.reduce((sum, value, i) => sum + value * this.weights[i], this.bias));
+  }
+
+  /**
+   * Batch gradient descent on weighted cross-entropy with L2 regularisation
+   */
+  train(
+    samples: TrainingSample[],
+    options: { epochs?: number; learningRate?: number; l2?: number } = {}
+  ): { loss: number } {
+    const epochs = options.epochs ?? 500;
+    const learningRate = options.learningRate ?? 0.5;
+    const l2 = options.l2 ?? 0.001;
+    const data = samples.map(sample => ({
+      features: extractComplexityFeatures(sample.query),
+      target: sample.target,
+      weight: sample.weight ?? 1
+    }));
+    const totalWeight = data.reduce((sum, sample) => sum + sample.weight, 0);
+    if (totalWeight === 0) return { loss: 0 };
+
+    let loss = 0;
+    for (let epoch = 0; epoch < epochs; epoch++) {
+      const gradient = new Array(this.weights.length).fill(0);
+      let biasGradient = 0;
+      loss = 0;
+
+      for (const sample of data) {
+        const prediction = this.sigmoid(
+          sample.features.reduce((sum, value, i) => sum + value * this.weights[i], this.bias)
+        );
+        const error = (prediction - sample.target) * sample.weight;
+        sample.features.forEach((value, i) => { gradient[i] += error * value; });
+        biasGradient += error;
+        loss -= sample.weight * (
+          sample.target * Math.log(prediction + 1e-12) + (1 - sample.target) * Math.log(1 - prediction + 1e-12)
+        );
+      }
+
+      this.weights = this.weights.map((w, i) => w - learningRate * (gradient[i] / totalWeight + l2 * w));
+      this.bias -= learningRate * (biasGradient / totalWeight);
+    }
+
+    return { loss: loss / totalWeight };
+  }
+
+  toJSON(): { weights: number[]; bias: number } {
+    return { weights: [...this.weights], bias: this.bias };
+  }
+
+  private sigmoid(x: number): number {
+    return 1 / (1 + Math.exp(-x));
+  }
+}
+
+/**
+ * Turn a logged routing outcome into a training target:
+ * - a poor outcome means the query needed a heavier tier than it got
+ * - a good but expensive outcome suggests a lighter tier would have sufficed
+ * - otherwise the tier that was used is taken as correct
+ * Explicit user feedback overrides the confidence signal.
+ */
+export function outcomeToTrainingSample(
+  outcome: RoutingOutcome,
+  options: { minConfidence?: number; costCeiling?: number } = {}
+): TrainingSample {
+  const minConfidence = options.minConfidence ?? 0.8;
+  const costCeiling = options.costCeiling ?? Infinity;
+  const tierValue = TIER_VALUES[outcome.tier];
+  const good = outcome.feedback ? outcome.feedback === 'positive' : outcome.confidence >= minConfidence;
+
+  let target = tierValue;
+  if (!good) {
+    target = Math.min(1, tierValue + 0.5);
+  } else if (outcome.cost > costCeiling) {
+    target = Math.max(0, tierValue - 0.25);
+  }
+
+  // User feedback is a stronger signal than model confidence
+  return { query: outcome.query, target, weight: outcome.feedback ? 2 : 1 };
+}
+
+/**
+ * Routing accuracy of a classifier against queries labelled with their correct tier
+ */
+export function evaluateRoutingAccuracy(
+  classifier: ComplexityClassifier,
+  examples: LabelledQuery[],
+  thresholds: RoutingThresholds = DEFAULT_ROUTING_THRESHOLDS
+): RoutingEvaluation {
+  const tiers: ComplexityTier[] = ['simple', 'medium', 'complex'];
+  const confusion = Object.fromEntries(
+    tiers.map(expected => [expected, Object.fromEntries(tiers.map(predicted => [predicted, 0]))])
+  ) as RoutingEvaluation['confusion'];
+  let correct = 0;
+
+  for (const example of examples) {
+    const predicted = tierForScore(classifier.score(example.query), thresholds);
+    confusion[example.tier][predicted]++;
+    if (predicted === example.tier) correct++;
+  }
+
+  return {
+    classifier: classifier.name,
+    accuracy: examples.length > 0 ? correct / examples.length : 0,
+    total: examples.length,
+    confusion
+  };
+}
+
+/**
+ * Evaluation harness: compare several classifiers on the same labelled set
+ */
+export function compareRoutingClassifiers(
+  classifiers: ComplexityClassifier[],
+  examples: LabelledQuery[],
+  thresholds: RoutingThresholds = DEFAULT_ROUTING_THRESHOLDS
+): RoutingEvaluation[] {
+  return classifiers
+    .map(classifier => evaluateRoutingAccuracy(classifier, examples, thresholds))
+    .sort((a, b) => b.accuracy - a.accuracy);
+}
@@ -0,0 +1,415 @@
+/**
+ * Confidence Calibration for SovereigntyOS AI
+ * Logs predicted confidence against later user-judged correctness, fits per-agent and per-domain
+ * calibration maps (isotonic or Platt scaling) and exports reliability diagrams
+ */
+
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface ConfidenceObservation {
+  taskId: string;
+  agent: string;
+  domain: string;
+  predicted: number; // Confidence before calibration
+  correct?: boolean; // Set once a user judges the answer
+  timestamp: Date;
+}
+
+export type CalibrationMethod = 'isotonic' | 'platt';
+
+export interface CalibrationConfig {
+  method?: CalibrationMethod; // Default 'isotonic'
+  minSamples?: number; // Judged observations a segment needs before its map is applied; default 20
+  maxObservations?: number; // Oldest observations are dropped first; default 10000
+  path?: string; // Append-only JSONL log; in-memory when omitted
+}
+
+/**
+ * A fitted map for one segment; unset agent or domain means the segment spans all of them
+ */
+export interface CalibrationMap {
+  agent?: string;
+  domain?: string;
+  method: CalibrationMethod;
+  samples: number;
+  points?: Array<[number, number]>; // Isotonic: (mean predicted, observed accuracy) per block
+  slope?: number; // Platt: calibrated = sigmoid(slope * logit(predicted) + intercept)
+  intercept?: number;
+}
+
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanConfidence: number;
+  accuracy: number;
+}
+
+export interface ReliabilityDiagram {
+  agent?: string;
+  domain?: string;
+  calibrated: boolean; // Whether confidences were calibrated before binning
+  samples: number;
+  bins: ReliabilityBin[];
+  expectedCalibrationError: number;
+  brierScore: number;
+}
+
+/**
+ * Pool-adjacent-violators: the non-decreasing step function closest to the outcomes
+ */
+export function fitIsotonic(samples: Array<{ predicted: number; correct: boolean }>): Array<[number, number]> {
+  const blocks: Array<{ sumPredicted: number; sumCorrect: number; count: number }> = [];
+  const mean = (block: { sumCorrect: number; count: number }) => block.sumCorrect / block.count;
+
+  // Correct answers sort first among ties so equal confidences always pool into one block
+  for (const sample of [...samples].sort((a, b) => a.predicted - b.predicted || Number(b.correct) - Number(a.correct))) {
+    blocks.push({ sumPredicted: sample.predicted, sumCorrect: sample.correct ? 1 : 0, count: 1 });
+    while (blocks.length > 1 && mean(blocks[blocks.length - 2]) >= mean(blocks[blocks.length - 1])) {
+      const last = blocks.pop()!;
+      const previous = blocks[blocks.length - 1];
+      previous.sumPredicted += last.sumPredicted;
+      previous.sumCorrect += last.sumCorrect;
+      previous.count += last.count;
+    }
+  }
+
+  return blocks.map(block => [block.sumPredicted / block.count, mean(block)]);
+}
+
+const logit = (p: number) => {
+  const clamped = Math.min(Math.max(p, 1e-4), 1 - 1e-4);
+  return Math.log(clamped / (1 - clamped));
+};
+const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
+
+/**
+ * Platt scaling on the logit of the predicted confidence, fitted by damped Newton steps with
+ * Platt's smoothed targets so that small or one-sided samples do not produce certainties
+ */
+export function fitPlatt(samples: Array<{ predicted: number; correct: boolean }>): { slope: number; intercept: number } {
+  const positives = samples.filter(sample => sample.correct).length;
+  const high = (positives + 1) / (positives + 2);
+  const low = 1 / (samples.length - positives + 2);
+  const target = (sample: { correct: boolean }) => sample.correct ? high : low;
+  const loss = (a: number, b: number) => samples.reduce((sum, sample) => {
+    const p = Math.min(Math.max(sigmoid(a * logit(sample.predicted) + b), 1e-12), 1 - 1e-12);
+    return sum - target(sample) * Math.log(p) - (1 - target(sample)) * Math.log(1 - p);
+  }, 0);
+  let slope = 1;
+  let intercept = 0;
+
+  for (let iteration = 0; iteration < 50; iteration++) {
+    // Gradient and (lightly regularised) Hessian of the log loss
+    let gradSlope = 0;
+    let gradIntercept = 0;
+    let hSS = 1e-6;
+    let hSI = 0;
+    let hII = 1e-6;
+    for (const sample of samples) {
+      const x = logit(sample.predicted);
+      const p = sigmoid(slope * x + intercept);
+      const error = p - target(sample);
+      const weight = p * (1 - p);
+      gradSlope += error * x;
+      gradIntercept += error;
+      hSS += weight * x * x;
+      hSI += weight * x;
+      hII += weight;
+    }
+
+    const determinant = hSS * hII - hSI * hSI;
+    if (Math.abs(determinant) < 1e-12) break;
+    let stepSlope = (hII * gradSlope - hSI * gradIntercept) / determinant;
+    let stepIntercept = (hSS * gradIntercept - hSI * gradSlope) / determinant;
+    // Halve the step until the loss falls; a full Newton step can overshoot
+    const current = loss(slope, intercept);
+    while (
+      loss(slope - stepSlope, intercept - stepIntercept) > current &&
+      Math.abs(stepSlope) + Math.abs(stepIntercept) > 1e-10
+    ) {
+      stepSlope /= 2;
+      stepIntercept /= 2;
+    }
+    slope -= stepSlope;
+    intercept -= stepIntercept;
+    if (Math.abs(stepSlope) + Math.abs(stepIntercept) < 1e-8) break;
+  }
+
+  return { slope, intercept };
+}
+
+export function applyCalibrationMap(map: CalibrationMap, confidence: number): number {
+  if (map.method === 'platt') {
+    return sigmoid(map.slope! * logit(confidence) + map.intercept!);
+  }
+
+  const points = map.points!;
+  if (confidence <= points[0][0]) return points[0][1];
+  if (confidence >= points[points.length - 1][0]) return points[points.length - 1][1];
+  const upper = points.findIndex(([x]) => x >= confidence);
+  const [x0, y0] = points[upper - 1];
+  const [x1, y1] = points[upper];
+  return y0 + (y1 - y0) * (confidence - x0) / (x1 - x0);
+}
+
+const segmentKey = (agent?: string, domain?: string) => `${agent ?? '*'}|${domain ?? '*'}`;
+
+type LogEntry =
+  | ({ type: 'prediction' } & ConfidenceObservation)
+  | { type: 'outcome'; taskId: string; correct: boolean };
+
+/**
+ * Log writes are queued so calibration never waits on the disk; failed writes are reported
+ * as 'write-failed' events
+ */
+export class ConfidenceCalibrator extends EventEmitter {
+  private method: CalibrationMethod;
+  private minSamples: number;
+  private maxObservations: number;
+  private filePath?: string;
+  private observations: ConfidenceObservation[] = [];
+  private maps: Map<string, CalibrationMap> | null = null; // Refitted lazily after new outcomes
+  private loaded: Promise<void> | null = null;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(config: CalibrationConfig = {}) {
+    super();
+    this.method = config.method || 'isotonic';
+    this.minSamples = config.minSamples ?? 20;
+    this.maxObservations = config.maxObservations ?? 10000;
+    this.filePath = config.path;
+  }
+
+  /**
+   * Log an uncalibrated confidence to be judged later under the same task id
+   */
+  async logPrediction(taskId: string, agent: string, domain: string, predicted: number): Promise<void> {
+    await this.load();
+    const observation: ConfidenceObservation = { taskId, agent, domain, predicted, timestamp: new Date() };
+    this.addObservation(observation);
+    this.append({ type: 'prediction', ...observation });
+  }
+
+  /**
+   * Judge every prediction logged for a task; a later judgement replaces an earlier one
+   */
+  async recordOutcome(taskId: string, correct: boolean): Promise<number> {
+    await this.load();
+    const judged = this.applyOutcome(taskId, correct);
+    if (judged === 0) {
+      throw new Error(`No confidence predictions logged for task ${taskId}`);
+    }
+    this.append({ type: 'outcome', taskId, correct });
+    return judged;
+  }
+
+  /**
+   * Calibrated confidence from the most specific segment with enough judged samples:
+   * agent and domain, then agent, then domain, then everything. Unchanged until then.
+   */
+  async calibrate(confidence: number, agent: string, domain: string): Promise<number> {
+    await this.load();
+    return this.calibrateWith(this.fittedMaps(), confidence, agent, domain);
+  }
+
+  /**
+   * Calibrate, then log the uncalibrated value for the task
+   */
+  async calibrateAndLog(taskId: string, confidence: number, agent: string, domain: string): Promise<number> {
+    const calibrated = await this.calibrate(confidence, agent, domain);
+    await this.logPrediction(taskId, agent, domain, confidence);
+    return calibrated;
+  }
+
+  /**
+   * Resolves once every logged prediction and outcome has been written
+   */
+  flush(): Promise<void> {
+    return this.writes;
+  }
+
+  async getCalibrationMaps(): Promise<CalibrationMap[]> {
+    await this.load();
+    return Array.from(this.fittedMaps().values()).map(map => ({ ...map }));
+  }
+
+  async getObservations(): Promise<ConfidenceObservation[]> {
+    await this.load();
+    return this.observations.map(observation => ({ ...observation }));
+  }
+
+  /**
+   * Accuracy against mean confidence in equal-width bins over the judged observations
+   */
+  async getReliabilityDiagram(
+    options: { agent?: string; domain?: string; bins?: number; calibrated?: boolean } = {}
+  ): Promise<ReliabilityDiagram> {
+    await this.load();
+    const binCount = Math.max(1, options.bins ?? 10);
+    const maps = this.fittedMaps();
+    const samples = this.judged(options.agent, options.domain).map(observation => ({
+      confidence: options.calibrated
+        ? this.calibrateWith(maps, observation.predicted, observation.agent, observation.domain)
+        : observation.predicted,
+      correct: observation.correct ? 1 : 0
+    }));
+
+    const bins = Array.from({ length: binCount }, (_, i) => {
+      const lower = i / binCount;
+      const upper = (i + 1) / binCount;
+      const members = samples.filter(sample =>
+        sample.confidence >= lower && (sample.confidence < upper || (i === binCount - 1 && sample.confidence <= upper))
+      );
+      const average = (values: number[]) => values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+      return {
+        lower,
+        upper,
+        count: members.length,
+        meanConfidence: average(members.map(member => member.confidence)),
+        accuracy: average(members.map(member => member.correct))
+      };
+    });
+
+    return {
+      agent: options.agent,
+      domain: options.domain,
+      calibrated: !!options.calibrated,
+      samples: samples.length,
+      bins,
+      expectedCalibrationError: samples.length
+        ? bins.reduce((sum, bin) => sum + bin.count * Math.abs(bin.accuracy - bin.meanConfidence), 0) / samples.length
+        : 0,
+      brierScore: samples.length
+        ? samples.reduce((sum, sample) => sum + (sample.confidence - sample.correct) ** 2, 0) / samples.length
+        : 0
+    };
+  }
+
+  /**
+   * Reliability diagrams for everything, each agent and each domain, as JSON
+   */
+  async exportReliabilityDiagrams(options: { bins?: number; calibrated?: boolean } = {}): Promise<string> {
+    await this.load();
+    const judged = this.judged();
+    const agents = Array.from(new Set(judged.map(observation => observation.agent)));
+    const domains = Array.from(new Set(judged.map(observation => observation.domain)));
+
+    const diagrams = [
+      await this.getReliabilityDiagram(options),
+      ...await Promise.all(agents.map(agent => this.getReliabilityDiagram({ ...options, agent }))),
+      ...await Promise.all(domains.map(domain => this.getReliabilityDiagram({ ...options, domain })))
+    ];
+    return JSON.stringify({ generatedAt: new Date().toISOString(), diagrams }, null, 2);
+  }
+
+  private judged(agent?: string, domain?: string): Array<ConfidenceObservation & { correct: boolean }> {
+    return this.observations.filter((observation): observation is ConfidenceObservation & { correct: boolean } =>
+      observation.correct !== undefined &&
+      (agent === undefined || observation.agent === agent) &&
+      (domain === undefined || observation.domain === domain)
+    );
+  }
+
+  private calibrateWith(maps: Map<string, CalibrationMap>, confidence: number, agent: string, domain: string): number {
+    const map = [segmentKey(agent, domain), segmentKey(agent), segmentKey(undefined, domain), segmentKey()]
+      .map(key => maps.get(key))
+      .find(candidate => candidate !== undefined);
+    return map ? applyCalibrationMap(map, confidence) : confidence;
+  }
+
+  private fittedMaps(): Map<string, CalibrationMap> {
+    if (this.maps) return this.maps;
+
+    const segments: Map<string, { agent?: string; domain?: string; samples: ConfidenceObservation[] }> = new Map();
+    for (const observation of this.judged()) {
+      for (const [agent, domain] of [
+        [observation.agent, observation.domain], [observation.agent, undefined],
+        [undefined, observation.domain], [undefined, undefined]
+      ]) {
+        const key = segmentKey(agent, domain);
+        if (!segments.has(key)) segments.set(key, { agent, domain, samples: [] });
+        segments.get(key)!.samples.push(observation);
+      }
+    }
+
+    this.maps = new Map();
+    for (const [key, segment] of segments) {
+      if (segment.samples.length < this.minSamples) continue;
+      const samples = segment.samples.map(({ predicted, correct }) => ({ predicted, correct: !!correct }));
+      this.maps.set(key, {
+        agent: segment.agent,
+        domain: segment.domain,
+        method: this.method,
+        samples: samples.length,
+        ...(this.method === 'platt' ? fitPlatt(samples) : { points: fitIsotonic(samples) })
+      });
+    }
+    return this.maps;
+  }
+
+  private addObservation(observation: ConfidenceObservation): void {
+    this.observations.push(observation);
+    if (this.observations.length > this.maxObservations) {
+      this.observations.shift();
+    }
+    if (observation.correct !== undefined) this.maps = null;
+  }
+
+  private applyOutcome(taskId: string, correct: boolean): number {
+    const matching = this.observations.filter(observation => observation.taskId === taskId);
+    matching.forEach(observation => { observation.correct = correct; });
+    if (matching.length > 0) this.maps = null;
+    return matching.length;
+  }
+
+  private append(entry: LogEntry): void {
+    const filePath = this.filePath;
+    if (!filePath) return;
+
+    const line = `${JSON.stringify(entry)}\n`;
+    this.writes = this.writes
+      .then(async () => {
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.promises.appendFile(filePath, line, 'utf8');
+      })
+      .catch(error => { this.emit('write-failed', { taskId: entry.taskId, error }); });
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.readLog();
+    }
+    return this.loaded;
+  }
+
+  private async readLog(): Promise<void> {
+    if (!this.filePath) return;
+    let content: string;
+    try {
+      content = await fs.promises.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      const entry: LogEntry = JSON.parse(line);
+      if (entry.type === 'outcome') {
+        this.applyOutcome(entry.taskId, entry.correct);
+      } else {
+        this.addObservation({
+          taskId: entry.taskId,
+          agent: entry.agent,
+          domain: entry.domain,
+          predicted: entry.predicted,
+          correct: entry.correct,
+          timestamp: new Date(entry.timestamp)
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Contradiction Detection for SovereigntyOS AI
+ * Finds claims in one text that contradict claims in another, using embedding similarity,
+ * polarity cues and an optional NLI-style judge
+ */
+
+import { EmbeddingService, TokenHashEmbeddingService } from './SemanticCacheManager';
+import type { JsonSchema } from './StructuredOutput';
+import { normaliseClaim, splitSentences } from './StepVerifier';
+
+export interface Contradiction {
+  claim: string; // Sentence from the text being checked
+  conflictsWith: string; // Sentence it contradicts
+  similarity: number; // Embedding similarity of the two claims with polarity removed
+  cue: 'negation' | 'antonym' | 'nli';
+  confidence: number;
+  source: string; // Judge agent id, or 'heuristic'
+}
+
+export interface NliVerdict {
+  label: 'entailment' | 'neutral' | 'contradiction';
+  confidence: number;
+}
+
+/**
+ * Judges whether the hypothesis contradicts the premise; null when no verdict is available
+ */
+export type ContradictionJudge = (premise: string, hypothesis: string) => Promise<(NliVerdict & { source: string }) | null>;
+
+export interface ContradictionDetectorConfig {
+  similarityThreshold?: number; // Claims less similar than this are about different things; default 0.6
+  maxJudgedPairs?: number; // Most similar claim pairs sent to the judge per check; default 5
+  embeddingService?: EmbeddingService; // TokenHashEmbeddingService when omitted
+  nliAgentId?: string; // Agent that judges candidate pairs; polarity cues only when omitted
+}
+
+export const NLI_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    label: { type: 'string', enum: ['entailment', 'neutral', 'contradiction'] },
+    confidence: { type: 'number', minimum: 0, maximum: 1 }
+  },
+  required: ['label', 'confidence']
+};
+
+export function buildNliPrompt(premise: string, hypothesis: string): string {
+  return `Decide whether the hypothesis is entailed by, neutral to, or contradicted by the premise.
+
+Premise: ${premise}
+Hypothesis: ${hypothesis}`;
+}
+
+/**
+ * Opposites written in normaliseClaim's stemmed form; the second word of each pair
+ * is embedded as the first so that "costs rise" and "costs fall" land together
+ */
+const ANTONYMS: Array<[string, string]> = [
+  ['increase', 'decrease'], ['rise', 'fall'], ['grow', 'shrink'], ['expand', 'contract'],
+  ['higher', 'lower'], ['more', 'less'], ['gain', 'loss'], ['above', 'below'],
+  ['strong', 'weak'], ['support', 'oppose'], ['benefit', 'harm'], ['approve', 'reject'],
+  ['success', 'failure'], ['true', 'false'], ['safe', 'unsafe'],
+  ['possible', 'impossible'], ['likely', 'unlikely'], ['effective', 'ineffective'],
+  ['legal', 'illegal'], ['profitable', 'unprofitable']
+];
+
+const CANONICAL_WORD = new Map(ANTONYMS.map(([word, opposite]) => [opposite, word]));
+
+const FILLER_WORDS = new Set([
+  'a', 'an', 'the', 'is', 'are', 'was', 'were', 'be', 'been', 'will', 'would', 'should', 'could',
+  'can', 'may', 'might', 'to', 'of', 'in', 'on', 'for', 'and', 'or', 'it', 'this', 'that', 'than'
+]);
+
+function claimTokens(claim: string): string[] {
+  return (claim.match(/[a-z0-9]+/g) || []).filter(word => !FILLER_WORDS.has(word));
+}
+
+interface Claim {
+  sentence: string;
+  negated: boolean;
+  tokens: Set<string>;
+  embedding: number[];
+}
+
+export class ContradictionDetector {
+  private similarityThreshold: number;
+  private maxJudgedPairs: number;
+  private embeddings: EmbeddingService;
+
+  constructor(config: ContradictionDetectorConfig = {}) {
+    this.similarityThreshold = config.similarityThreshold ?? 0.6;
+    this.maxJudgedPairs = config.maxJudgedPairs ?? 5;
+    this.embeddings = config.embeddingService || new TokenHashEmbeddingService();
+  }
+
+  /**
+   * Claims in `text` that contradict claims in `against`. Similar claim pairs are judged by
+   * `judge` when given (most similar first), otherwise by opposite polarity: one side negated,
+   * or an antonym on one side only.
+   */
+  async detect(text: string, against: string, judge?: ContradictionJudge): Promise<Contradiction[]> {
+    const [claims, others] = await Promise.all([this.claims(text), this.claims(against)]);
+    const candidates: Array<{ claim: Claim; other: Claim; similarity: number }> = [];
+
+    for (const claim of claims) {
+      for (const other of others) {
+        const similarity = this.embeddings.calculateSimilarity(claim.embedding, other.embedding);
+        if (similarity >= this.similarityThreshold && claim.sentence !== other.sentence) {
+          candidates.push({ claim, other, similarity });
+        }
+      }
+    }
+    candidates.sort((a, b) => b.similarity - a.similarity);
+
+    const contradictions: Contradiction[] = [];
+    for (const [i, { claim, other, similarity }] of candidates.entries()) {
+      const base = { claim: claim.sentence, conflictsWith: other.sentence, similarity };
+      const verdict = judge && i < this.maxJudgedPairs ? await judge(other.sentence, claim.sentence) : null;
+
+      if (verdict) {
+        if (verdict.label === 'contradiction') {
+          contradictions.push({ ...base, cue: 'nli', confidence: verdict.confidence, source: verdict.source });
+        }
+        continue;
+      }
+
+      const antonym = ANTONYMS.some(([word, opposite]) =>
+        (claim.tokens.has(word) && other.tokens.has(opposite) && !claim.tokens.has(opposite)) ||
+        (claim.tokens.has(opposite) && other.tokens.has(word) && !claim.tokens.has(word))
+      );
+      // A negated antonym ("will not fall" vs "will rise") agrees rather than conflicts
+      if (antonym !== (claim.negated !== other.negated)) {
+        contradictions.push({
+          ...base,
+          cue: antonym ? 'antonym' : 'negation',
+          confidence: antonym ? similarity * 0.8 : similarity,
+          source: 'heuristic'
+        });
+      }
+    }
+
+    return contradictions;
+  }
+
+  private async claims(text: string): Promise<Claim[]> {
+    return Promise.all(splitSentences(text).map(async sentence => {
+      const { claim, negated } = normaliseClaim(sentence);
+      const tokens = claimTokens(claim);
+      const embedding = await this.embeddings.generateEmbedding(
+        tokens.map(word => CANONICAL_WORD.get(word) || word).join(' ')
+      );
+      return { sentence, negated, tokens: new Set(tokens), embedding };
+    }));
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Multi-turn Conversation Sessions for SovereigntyOS AI
+ * Keeps turn history across orchestrator queries and fits it into each agent's context window
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { CognitiveOrchestrator, QueryResult, ReasoningContext } from './CognitiveOrchestrator';
+import { estimateTokens } from './ModelProviders';
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: Date;
+  taskId?: string;
+}
+
+export interface SerializedSession {
+  id: string;
+  createdAt: string;
+  defaults: Partial<ReasoningContext>;
+  maxHistoryTokens?: number;
+  turns: Array<Omit<ConversationTurn, 'timestamp'> & { timestamp: string }>;
+}
+
+export interface SessionOptions {
+  id?: string;
+  defaults?: Partial<ReasoningContext>; // Context applied to every turn unless overridden
+  maxHistoryTokens?: number; // Cap on history regardless of agent context window
+}
+
+/**
+ * Share of an agent's context window that conversation history may occupy
+ */
+const HISTORY_CONTEXT_SHARE = 0.5;
+
+/**
+ * Keep the most recent turns whose estimated size fits the token budget
+ */
+export function trimHistory(turns: ConversationTurn[], tokenBudget: number): ConversationTurn[] {
+  const kept: ConversationTurn[] = [];
+  let used = 0;
+
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const tokens = estimateTokens(turns[i].content);
+    if (used + tokens > tokenBudget) break;
+    kept.unshift(turns[i]);
+    used += tokens;
+  }
+
+  return kept;
+}
+
+export function historyBudgetFor(contextWindow: number, maxHistoryTokens?: number): number {
+  return Math.min(contextWindow * HISTORY_CONTEXT_SHARE, maxHistoryTokens ?? Infinity);
+}
+
+export class ConversationSession {
+  readonly id: string;
+  readonly createdAt: Date;
+  private orchestrator: CognitiveOrchestrator;
+  private defaults: Partial<ReasoningContext>;
+  private maxHistoryTokens?: number;
+  private turns: ConversationTurn[];
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    orchestrator: CognitiveOrchestrator,
+    options: SessionOptions = {},
+    state: { createdAt?: Date; turns?: ConversationTurn[] } = {}
+  ) {
+    this.orchestrator = orchestrator;
+    this.id = options.id || uuidv4();
+    this.defaults = options.defaults || {};
+    this.maxHistoryTokens = options.maxHistoryTokens;
+    this.createdAt = state.createdAt || new Date();
+    this.turns = state.turns || [];
+  }
+
+  /**
+   * Ask a follow-up question; turns are processed one at a time in call order
+   */
+  ask(query: string, context: Partial<ReasoningContext> = {}): Promise<QueryResult> {
+    const result = this.pending.then(() => this.runTurn(query, context));
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  getTurns(): ConversationTurn[] {
+    return [...this.turns];
+  }
+
+  toJSON(): SerializedSession {
+    return {
+      id: this.id,
+      createdAt: this.createdAt.toISOString(),
+      defaults: this.defaults,
+      maxHistoryTokens: this.maxHistoryTokens,
+      turns: this.turns.map(turn => ({ ...turn, timestamp: turn.timestamp.toISOString() }))
+    };
+  }
+
+  static fromJSON(orchestrator: CognitiveOrchestrator, data: SerializedSession): ConversationSession {
+    return new ConversationSession(
+      orchestrator,
+      { id: data.id, defaults: data.defaults, maxHistoryTokens: data.maxHistoryTokens },
+      {
+        createdAt: new Date(data.createdAt),
+        turns: data.turns.map(turn => ({ ...turn, timestamp: new Date(turn.timestamp) }))
+      }
+    );
+  }
+
+  private async runTurn(query: string, context: Partial<ReasoningContext>): Promise<QueryResult> {
+    const result = await this.orchestrator.processComplexQuery(query, {
+      ...this.defaults,
+      ...context,
+      history: this.getTurns(),
+      maxHistoryTokens: this.maxHistoryTokens,
+      metadata: { ...this.defaults.metadata, ...context.metadata, sessionId: this.id }
+    });
+
+    // Store the guardrail-checked query so redacted details never re-enter later prompts
+    const timestamp = new Date();
+    this.turns.push(
+      { role: 'user', content: result.metadata.query ?? query, timestamp, taskId: result.metadata.taskId },
+      { role: 'assistant', content: result.response, timestamp, taskId: result.metadata.taskId }
+    );
+
+    return result;
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Budget-aware Cost Optimizer for SovereigntyOS AI
+ * Enforces per-request and per-tenant spend caps on agent selection
+ */
+
+import type { AgentCapability, ReasoningContext } from './CognitiveOrchestrator';
+
+export interface CostBudgetConfig {
+  maxCostPerRequest?: number;
+  defaultTenantSpendCap?: number;
+  tenantSpendCaps?: Record<string, number>;
+  windowMs?: number; // Spend resets once the window elapses
+}
+
+export interface AgentSwap {
+  from: string;
+  to: string | null; // null when the agent was dropped without a replacement
+  reason: string;
+}
+
+export interface CostOptimizationResult {
+  agents: string[];
+  estimatedCost: number;
+  budget: number;
+  swaps: AgentSwap[];
+  explanation: string;
+}
+
+interface TenantSpend {
+  spent: number;
+  windowStart: number;
+}
+
+export const DEFAULT_TENANT = 'default';
+
+/**
+ * Specializations overlap when they share a term,
+ * e.g. "complex-reasoning" and "simple-reasoning"
+ */
+export function sharedSpecializationTerms(a: AgentCapability, b: AgentCapability): string[] {
+  const terms = (agent: AgentCapability) =>
+    new Set(agent.specialization.flatMap(spec => spec.split('-')));
+  const bTerms = terms(b);
+
+  return Array.from(terms(a)).filter(term => bTerms.has(term));
+}
+
+export class CostOptimizer {
+  private maxCostPerRequest: number;
+  private defaultTenantSpendCap: number;
+  private tenantSpendCaps: Record<string, number>;
+  private windowMs: number;
+  private tenantSpend: Map<string, TenantSpend> = new Map();
+
+  constructor(config: CostBudgetConfig = {}) {
+    this.maxCostPerRequest = config.maxCostPerRequest ?? Infinity;
+    this.defaultTenantSpendCap = config.defaultTenantSpendCap ?? Infinity;
+    this.tenantSpendCaps = config.tenantSpendCaps || {};
+    this.windowMs = config.windowMs || 24 * 60 * 60 * 1000; // 24 hours
+  }
+
+  /**
+   * Fit the requested agents into the remaining budget, swapping expensive
+   * agents for cheaper ones with an overlapping specialization.
+   * `callsPerAgent` accounts for strategies that query each agent more than once.
+   */
+  optimizeAgentSelection(
+    agentIds: string[],
+    context: ReasoningContext,
+    agents: Map<string, AgentCapability>,
+    callsPerAgent: number = 1
+  ): CostOptimizationResult {
+    const tenantId = context.tenantId || DEFAULT_TENANT;
+    const budget = this.remainingBudget(context);
+
+    const selected: string[] = [];
+    const swaps: AgentSwap[] = [];
+    let estimatedCost = 0;
+
+    for (const agentId of agentIds) {
+      const agent = agents.get(agentId);
+      if (!agent) continue;
+
+      if (estimatedCost + agent.costPerQuery * callsPerAgent <= budget) {
+        selected.push(agentId);
+        estimatedCost += agent.costPerQuery * callsPerAgent;
+        continue;
+      }
+
+      const remainingPerCall = (budget - estimatedCost) / callsPerAgent;
+      const replacement = this.findReplacement(agent, remainingPerCall, [...agentIds, ...selected], agents);
+      if (replacement) {
+        selected.push(replacement.id);
+        estimatedCost += replacement.costPerQuery * callsPerAgent;
+        swaps.push({
+          from: agentId,
+          to: replacement.id,
+          reason: `${agentId} ($${agent.costPerQuery.toFixed(2)}) exceeds the remaining budget; ` +
+            `${replacement.id} ($${replacement.costPerQuery.toFixed(2)}) shares ` +
+            `${sharedSpecializationTerms(agent, replacement).join(', ')}`
+        });
+      } else {
+        swaps.push({
+          from: agentId,
+          to: null,
+          reason: `${agentId} ($${agent.costPerQuery.toFixed(2)}) exceeds the remaining budget and no cheaper agent overlaps its specialization`
+        });
+      }
+    }
+
+    if (selected.length === 0 && agentIds.length > 0) {
+      throw new Error(
+        `Budget exceeded for tenant ${tenantId}: $${budget.toFixed(2)} remaining, no agent fits`
+      );
+    }
+
+    return {
+      agents: selected,
+      estimatedCost,
+      budget,
+      swaps,
+      explanation: swaps.length > 0
+        ? swaps.map(swap => swap.reason).join('\n')
+        : `All requested agents fit within the $${budget.toFixed(2)} budget`
+    };
+  }
+
+  /**
+   * What a request may still spend: the smaller of its own budget, less `requestSpent`,
+   * and what is left of its tenant's cap. `reserved` is held back from both for calls
+   * the request has planned but not yet made.
+   */
+  remainingBudget(context: ReasoningContext, requestSpent: number = 0, reserved: number = 0): number {
+    const tenantId = context.tenantId || DEFAULT_TENANT;
+    const requestRemaining = (context.maxCost ?? this.maxCostPerRequest) - requestSpent - reserved;
+    const tenantRemaining = this.getTenantCap(tenantId) - this.getTenantSpend(tenantId) - reserved;
+    return Math.max(0, Math.min(requestRemaining, tenantRemaining));
+  }
+
+  /**
+   * Record actual spend against a tenant's current window
+   */
+  recordSpend(tenantId: string | undefined, cost: number): void {
+    const spend = this.currentWindow(tenantId || DEFAULT_TENANT);
+    spend.spent += cost;
+  }
+
+  getTenantSpend(tenantId: string = DEFAULT_TENANT): number {
+    return this.currentWindow(tenantId).spent;
+  }
+
+  getTenantCap(tenantId: string = DEFAULT_TENANT): number {
+    return this.tenantSpendCaps[tenantId] ?? this.defaultTenantSpendCap;
+  }
+
+  setTenantSpendCap(tenantId: string, cap: number): void {
+    this.tenantSpendCaps[tenantId] = cap;
+  }
+
+  private currentWindow(tenantId: string): TenantSpend {
+    const now = Date.now();
+    let spend = this.tenantSpend.get(tenantId);
+
+    if (!spend || now - spend.windowStart >= this.windowMs) {
+      spend = { spent: 0, windowStart: now };
+      this.tenantSpend.set(tenantId, spend);
+    }
+
+    return spend;
+  }
+
+  private findReplacement(
+    agent: AgentCapability,
+    remaining: number,
+    excluded: string[],
+    agents: Map<string, AgentCapability>
+  ): AgentCapability | null {
+    const candidates = Array.from(agents.values()).filter(candidate =>
+      !excluded.includes(candidate.id) &&
+      candidate.costPerQuery < agent.costPerQuery &&
+      candidate.costPerQuery <= remaining &&
+      sharedSpecializationTerms(agent, candidate).length > 0
+    );
+
+    // Prefer the most reliable substitute, then the fastest, then the cheapest
+    candidates.sort((a, b) =>
+      b.reliability - a.reliability ||
+      a.latency - b.latency ||
+      a.costPerQuery - b.costPerQuery
+    );
+
+    return candidates[0] || null;
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Evidence Retrieval for SovereigntyOS AI
+ * Grounds reasoning against a local document corpus, such as stored manuscripts or
+ * parliamentary analyses, by retrieving the passages most similar to a claim
+ */
+
+import * as fs from 'fs';
+import { EmbeddingService, TokenHashEmbeddingService } from './SemanticCacheManager';
+import { splitSentences } from './StepVerifier';
+
+export interface CorpusDocument {
+  id: string;
+  content: string;
+  title?: string;
+  domain?: string; // Documents without a domain match every query
+}
+
+export interface EvidencePassage {
+  documentId: string;
+  title?: string;
+  snippet: string;
+  relevance: number; // Embedding similarity to the query
+}
+
+export interface EvidenceSearchOptions {
+  domain?: string;
+  limit?: number; // Default 3
+  minRelevance?: number; // Default 0.3
+}
+
+export interface EvidenceRetriever {
+  retrieve(query: string, options?: EvidenceSearchOptions): Promise<EvidencePassage[]>;
+}
+
+export interface EvidenceGroundingConfig {
+  retriever: EvidenceRetriever;
+  limit?: number; // Passages attached per thought; default 3
+  minRelevance?: number; // Default 0.3
+}
+
+interface Passage {
+  document: CorpusDocument;
+  snippet: string;
+  embedding: number[];
+}
+
+/**
+ * In-memory corpus split into passages of a few sentences, each embedded once when added
+ */
+export class DocumentCorpus implements EvidenceRetriever {
+  private passages: Passage[] = [];
+  private documentIds: Set<string> = new Set();
+  private embeddingService: EmbeddingService;
+  private passageSentences: number;
+
+  constructor(options: { embeddingService?: EmbeddingService; passageSentences?: number } = {}) {
+    this.embeddingService = options.embeddingService || new TokenHashEmbeddingService();
+    this.passageSentences = Math.max(1, options.passageSentences ?? 3);
+  }
+
+  async add(...documents: CorpusDocument[]): Promise<void> {
+    for (const document of documents) {
+      if (!document.id || typeof document.content !== 'string') {
+        throw new Error(`Invalid corpus document ${document.id || '(unnamed)'}: needs an id and content`);
+      }
+      if (this.documentIds.has(document.id)) {
+        throw new Error(`Corpus document ${document.id} is already added`);
+      }
+
+      const sentences = splitSentences(document.content);
+      for (let i = 0; i < sentences.length; i += this.passageSentences) {
+        const snippet = sentences.slice(i, i + this.passageSentences).join(' ');
+        this.passages.push({ document, snippet, embedding: await this.embeddingService.generateEmbedding(snippet) });
+      }
+      this.documentIds.add(document.id);
+    }
+  }
+
+  /**
+   * Best passages first, at most one per document
+   */
+  async retrieve(query: string, options: EvidenceSearchOptions = {}): Promise<EvidencePassage[]> {
+    const embedding = await this.embeddingService.generateEmbedding(query);
+    const best: Map<string, EvidencePassage> = new Map();
+
+    for (const passage of this.passages) {
+      if (options.domain && passage.document.domain && passage.document.domain !== options.domain) continue;
+
+      const relevance = this.embeddingService.calculateSimilarity(embedding, passage.embedding);
+      const current = best.get(passage.document.id);
+      if (relevance >= (options.minRelevance ?? 0.3) && (!current || relevance > current.relevance)) {
+        best.set(passage.document.id, {
+          documentId: passage.document.id,
+          title: passage.document.title,
+          snippet: passage.snippet,
+          relevance
+        });
+      }
+    }
+
+    return Array.from(best.values())
+      .sort((a, b) => b.relevance - a.relevance)
+      .slice(0, options.limit ?? 3);
+  }
+
+  size(): number {
+    return this.documentIds.size;
+  }
+
+  /**
+   * Add every document in a JSON file holding an array or `{ documents: [...] }`, or a JSONL file
+   */
+  async loadFromFile(filePath: string): Promise<CorpusDocument[]> {
+    const content = await fs.promises.readFile(filePath, 'utf8');
+    const parsed = filePath.toLowerCase().endsWith('.jsonl')
+      ? content.split('\n').filter(line => line.trim()).map(line => JSON.parse(line))
+      : JSON.parse(content);
+    const documents: unknown = Array.isArray(parsed) ? parsed : parsed?.documents;
+
+    if (!Array.isArray(documents)) {
+      throw new Error(`Invalid corpus file ${filePath}: expected an array, { documents: [...] } or JSONL`);
+    }
+    await this.add(...(documents as CorpusDocument[]));
+    return documents as CorpusDocument[];
+  }
+}
@@ -0,0 +1,360 @@
+/**
+ * Model Provider Adapters for SovereigntyOS AI
+ * Connects CognitiveOrchestrator agents to chat-completions style model endpoints
+ */
+
+import * as crypto from 'crypto';
+import axios from 'axios';
+import type { AgentCapability, ReasoningContext } from './CognitiveOrchestrator';
+import { sampleFromSchema } from './StructuredOutput';
+
+export interface ModelProviderRequest {
+  agent: AgentCapability;
+  query: string;
+  prompt: string;
+  context: ReasoningContext;
+  signal?: AbortSignal; // Aborted when the query is cancelled
+}
+
+export interface ModelProviderUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ModelProviderResponse {
+  output: string;
+  confidence: number;
+  reasoning: string;
+  verification: boolean;
+  model: string;
+  usage: ModelProviderUsage;
+}
+
+/**
+ * Rough token count (~4 characters per token) for budgeting without a tokenizer
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export type TokenHandler = (token: string) => void;
+
+export interface ModelProviderAdapter {
+  readonly modelType: string;
+  complete(request: ModelProviderRequest): Promise<ModelProviderResponse>;
+  /**
+   * Optional streaming variant: reports partial tokens as they arrive and
+   * resolves with the same response `complete` would have produced
+   */
+  stream?(request: ModelProviderRequest, onToken: TokenHandler): Promise<ModelProviderResponse>;
+}
+
+export interface ChatCompletionsConfig {
+  modelType: string;
+  model: string;
+  baseUrl: string;
+  apiKey?: string;
+  apiKeyEnv?: string[];
+  maxTokens?: number;
+  maxTokensParam?: 'max_tokens' | 'max_completion_tokens'; // Reasoning models only accept max_completion_tokens
+  temperature?: number | null; // null leaves the provider default, for models that reject other values
+  timeoutMs?: number;
+  systemPrompt?: string;
+}
+
+const DEFAULT_REQUEST_TIMEOUT_MS = 60000;
+
+interface ChatCompletionsChunk {
+  model?: string;
+  choices?: Array<{
+    delta?: { content?: string };
+    finish_reason?: string | null;
+  }>;
+  usage?: ChatCompletionsResponse['usage'];
+}
+
+interface ChatCompletionsResponse {
+  model?: string;
+  choices: Array<{
+    message: { role: string; content: string };
+    finish_reason?: string;
+  }>;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+  };
+}
+
+/**
+ * Adapter for any OpenAI-compatible `/chat/completions` endpoint
+ */
+export class ChatCompletionsAdapter implements ModelProviderAdapter {
+  readonly modelType: string;
+  private config: ChatCompletionsConfig;
+
+  constructor(config: ChatCompletionsConfig) {
+    this.modelType = config.modelType;
+    this.config = config;
+  }
+
+  async complete(request: ModelProviderRequest): Promise<ModelProviderResponse> {
+    const apiKey = this.requireApiKey();
+    const data = await this.post(apiKey, this.buildRequestBody(request), request.signal);
+
+    const choice = data.choices?.[0];
+    if (!choice?.message?.content) {
+      throw new Error(`${this.modelType} API returned no completion`);
+    }
+
+    return this.buildResponse(request, choice.message.content, data.model, choice.finish_reason, data.usage);
+  }
+
+  async stream(request: ModelProviderRequest, onToken: TokenHandler): Promise<ModelProviderResponse> {
+    const apiKey = this.requireApiKey();
+    const body = {
+      ...this.buildRequestBody(request),
+      stream: true,
+      stream_options: { include_usage: true }
+    };
+
+    let content = '';
+    let model: string | undefined;
+    let finishReason: string | undefined;
+    let usage: ChatCompletionsResponse['usage'];
+
+    for await (const chunk of this.postStream(apiKey, body, request.signal)) {
+      const choice = chunk.choices?.[0];
+      const token = choice?.delta?.content;
+      if (token) {
+        content += token;
+        onToken(token);
+      }
+      model = chunk.model || model;
+      finishReason = choice?.finish_reason || finishReason;
+      usage = chunk.usage || usage;
+    }
+
+    if (!content) {
+      throw new Error(`${this.modelType} API returned no completion`);
+    }
+
+    return this.buildResponse(request, content, model, finishReason, usage);
+  }
+
+  private buildRequestBody(request: ModelProviderRequest): Record<string, any> {
+    const temperature = this.config.temperature === undefined ? 0.2 : this.config.temperature;
+
+    return {
+      model: this.config.model,
+      messages: [
+        {
+          role: 'system',
+          content: this.config.systemPrompt ||
+            `You are ${request.agent.name}, specialized in ${request.agent.specialization.join(', ')}.`
+        },
+        { role: 'user', content: request.prompt }
+      ],
+      [this.config.maxTokensParam || 'max_tokens']: this.config.maxTokens || 2000,
+      ...(temperature === null ? {} : { temperature })
+    };
+  }
+
+  private buildResponse(
+    request: ModelProviderRequest,
+    content: string,
+    model: string | undefined,
+    finishReason: string | undefined,
+    usage: ChatCompletionsResponse['usage']
+  ): ModelProviderResponse {
+    // Truncated completions are less trustworthy than the agent's baseline reliability
+    const truncated = finishReason === 'length';
+    const promptTokens = usage?.prompt_tokens || 0;
+    const completionTokens = usage?.completion_tokens || 0;
+
+    return {
+      output: content.trim(),
+      confidence: truncated ? request.agent.reliability * 0.8 : request.agent.reliability,
+      reasoning: `Applied ${request.agent.specialization.join(', ')} via ${model || this.config.model}`,
+      verification: true,
+      model: model || this.config.model,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: usage?.total_tokens || promptTokens + completionTokens
+      }
+    };
+  }
+
+  private requireApiKey(): string {
+    const apiKey = this.resolveApiKey();
+    if (!apiKey) {
+      const envNames = (this.config.apiKeyEnv || []).join(' or ');
+      throw new Error(`No API key configured for ${this.modelType} (set ${envNames || 'apiKey'})`);
+    }
+    return apiKey;
+  }
+
+  private resolveApiKey(): string {
+    if (this.config.apiKey) return this.config.apiKey;
+
+    for (const name of this.config.apiKeyEnv || []) {
+      if (process.env[name]) return process.env[name] as string;
+    }
+    return '';
+  }
+
+  private async post(
+    apiKey: string,
+    body: Record<string, any>,
+    signal?: AbortSignal
+  ): Promise<ChatCompletionsResponse> {
+    try {
+      const response = await axios.post(`${this.config.baseUrl}/chat/completions`, body, {
+        headers: this.buildHeaders(apiKey),
+        timeout: this.config.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS,
+        signal
+      });
+
+      return response.data;
+    } catch (error) {
+      throw this.wrapError(error);
+    }
+  }
+
+  /**
+   * Parse the server-sent event stream into completion chunks
+   */
+  private async *postStream(
+    apiKey: string,
+    body: Record<string, any>,
+    signal?: AbortSignal
+  ): AsyncGenerator<ChatCompletionsChunk> {
+    let stream: AsyncIterable<Buffer>;
+    try {
+      const response = await axios.post(`${this.config.baseUrl}/chat/completions`, body, {
+        headers: this.buildHeaders(apiKey),
+        responseType: 'stream',
+        timeout: this.config.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS,
+        signal
+      });
+      stream = response.data;
+    } catch (error) {
+      throw this.wrapError(error);
+    }
+
+    let buffer = '';
+    for await (const data of stream) {
+      buffer += data.toString();
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const payload = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !payload) continue;
+        if (payload === '[DONE]') return;
+        yield JSON.parse(payload);
+      }
+    }
+  }
+
+  private buildHeaders(apiKey: string): Record<string, string> {
+    return {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json'
+    };
+  }
+
+  private wrapError(error: unknown): unknown {
+    if (axios.isAxiosError(error)) {
+      return new Error(`${this.modelType} API Error: ${error.response?.data?.error?.message || error.message}`);
+    }
+    return error;
+  }
+}
+
+/**
+ * Deterministic offline adapter for tests and local development.
+ * The same agent and prompt always produce the same output, shaped to the output schema when one is requested.
+ */
+export class LocalStubAdapter implements ModelProviderAdapter {
+  readonly modelType: string;
+
+  constructor(modelType: string) {
+    this.modelType = modelType;
+  }
+
+  async complete(request: ModelProviderRequest): Promise<ModelProviderResponse> {
+    const digest = crypto.createHash('sha256')
+      .update(`${request.agent.id}:${request.prompt}`)
+      .digest('hex')
+      .slice(0, 8);
+    const text = `${request.agent.name} [${digest}] processed: ${request.query}`;
+    const schema = request.context.outputSchema;
+    const output = schema ? JSON.stringify(sampleFromSchema(schema, text)) : text;
+    const promptTokens = estimateTokens(request.prompt);
+    const completionTokens = estimateTokens(output);
+
+    return {
+      output,
+      confidence: request.agent.reliability,
+      reasoning: `Applied ${request.agent.specialization.join(', ')} to analyze the query`,
+      verification: true,
+      model: `stub:${this.modelType}`,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens
+      }
+    };
+  }
+
+  async stream(request: ModelProviderRequest, onToken: TokenHandler): Promise<ModelProviderResponse> {
+    const response = await this.complete(request);
+    for (const token of response.output.match(/\S+\s*/g) || []) {
+      onToken(token);
+    }
+    return response;
+  }
+}
+
+/**
+ * Default adapters for the four built-in agent model types.
+ * Keys are read from the environment when a request is made.
+ */
+export function createDefaultProviderAdapters(): ModelProviderAdapter[] {
+  return [
+    new ChatCompletionsAdapter({
+      modelType: 'gpt-5',
+      model: 'gpt-5',
+      baseUrl: 'https://api.openai.com/v1',
+      apiKeyEnv: ['OPENAI_API_KEY', 'VITE_OPENAI_API_KEY'],
+      maxTokensParam: 'max_completion_tokens',
+      temperature: null
+    }),
+    new ChatCompletionsAdapter({
+      modelType: 'claude-sonnet-4.5',
+      model: 'claude-sonnet-4-5',
+      baseUrl: 'https://api.anthropic.com/v1',
+      apiKeyEnv: ['ANTHROPIC_API_KEY', 'VITE_ANTHROPIC_API_KEY']
+    }),
+    new ChatCompletionsAdapter({
+      modelType: 'gemini-2.5-pro',
+      model: 'gemini-2.5-pro',
+      baseUrl: 'https://generativelanguage.googleapis.com/v1beta/openai',
+      apiKeyEnv: ['GEMINI_API_KEY', 'VITE_GEMINI_API_KEY']
+    }),
+    new ChatCompletionsAdapter({
+      modelType: 'glm-4.5',
+      model: 'glm-4.5',
+      baseUrl: 'https://open.bigmodel.cn/api/paas/v4',
+      apiKeyEnv: ['GLM_API_KEY', 'VITE_GLM_API_KEY']
+    })
+  ];
+}
+
+export function createLocalStubAdapters(): ModelProviderAdapter[] {
+  return ['gpt-5', 'claude-sonnet-4.5', 'gemini-2.5-pro', 'glm-4.5']
+    .map(modelType => new LocalStubAdapter(modelType));
+}
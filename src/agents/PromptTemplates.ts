@@ -0,0 +1,214 @@
+/**
+ * Prompt Template Registry for SovereigntyOS AI
+ * Versioned prompt templates with per-agent/per-domain overrides and locale variants
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+
+export interface PromptTemplate {
+  id: string;
+  version: number;
+  template: string; // `{{variable}}` placeholders
+  agentId?: string; // Override for one agent
+  domain?: string; // Override for one domain
+  locale?: string; // e.g. 'af' or 'af-ZA'; unset templates serve every locale
+  description?: string;
+}
+
+export interface PromptScope {
+  agentId?: string;
+  domain?: string;
+  locale?: string;
+  version?: number; // Pin a version, e.g. for A/B comparison
+}
+
+/**
+ * Identifies the template that produced a prompt
+ */
+export interface PromptTemplateRef {
+  id: string;
+  version: number;
+  locale?: string;
+}
+
+export interface RenderedPrompt {
+  text: string;
+  template: PromptTemplateRef;
+}
+
+export const DEFAULT_PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'orchestrator.agent',
+    version: 1,
+    description: 'Prompt sent to each orchestrator agent',
+    template: `
+As a {{agentName}} specialized in {{specializations}},
+analyze the following query in the context of {{domain}}:
+
+Query: {{query}}
+
+Context:
+- Complexity: {{complexity}}
+- Urgency: {{urgency}}
+- Domain: {{domain}}
+{{memories}}{{history}}
+Provide a detailed analysis with reasoning steps and confidence level.
+`
+  },
+  {
+    id: 'reasoning.perspective',
+    version: 1,
+    description: 'Initial thought from one perspective in ReasoningEngine',
+    template: `
+From a {{perspective}}, {{instruction}}:
+
+Query: {{query}}
+
+Context: {{context}}
+
+Provide your analysis and reasoning.
+`
+  },
+  {
+    id: 'reasoning.expansion',
+    version: 1,
+    description: 'Child thought expanding a parent in ReasoningEngine',
+    template: `
+Building on this thought: "{{parentContent}}"
+
+Using {{strategy}} strategy: {{instruction}}
+
+Expand and refine the reasoning.
+`
+  }
+];
+
+/**
+ * Fill `{{name}}` placeholders; every placeholder must have a value
+ */
+export function renderTemplate(template: string, variables: Record<string, string | number>): string {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, name: string) => {
+    if (!(name in variables)) {
+      throw new Error(`Missing prompt variable "${name}"`);
+    }
+    return String(variables[name]);
+  });
+}
+
+export class PromptTemplateRegistry {
+  private templates: PromptTemplate[] = [];
+
+  constructor(templates: PromptTemplate[] = DEFAULT_PROMPT_TEMPLATES) {
+    templates.forEach(template => this.register(template));
+  }
+
+  register(template: PromptTemplate): void {
+    const problem = this.validate(template, this.templates);
+    if (problem) {
+      throw new Error(problem);
+    }
+    this.templates.push({ ...template });
+  }
+
+  /**
+   * Most specific match wins: agent override, then domain override, then locale
+   * (exact, then language), then the highest version
+   */
+  resolve(id: string, scope: PromptScope = {}): PromptTemplate {
+    const language = scope.locale?.split('-')[0];
+    const rank = (template: PromptTemplate): number[] => [
+      template.agentId ? 1 : 0,
+      template.domain ? 1 : 0,
+      !template.locale ? 0 : template.locale === scope.locale ? 2 : 1,
+      template.version
+    ];
+
+    const candidates = this.templates.filter(template =>
+      template.id === id &&
+      (scope.version === undefined || template.version === scope.version) &&
+      (!template.agentId || template.agentId === scope.agentId) &&
+      (!template.domain || template.domain === scope.domain) &&
+      (!template.locale || template.locale === scope.locale || template.locale === language)
+    );
+    if (candidates.length === 0) {
+      throw new Error(`No prompt template ${id}${scope.version ? ` v${scope.version}` : ''} matches the requested scope`);
+    }
+
+    return candidates.sort((a, b) => {
+      const rankA = rank(a);
+      const rankB = rank(b);
+      const differing = rankA.findIndex((value, i) => value !== rankB[i]);
+      return differing === -1 ? 0 : rankB[differing] - rankA[differing];
+    })[0];
+  }
+
+  render(id: string, variables: Record<string, string | number>, scope: PromptScope = {}): RenderedPrompt {
+    const template = this.resolve(id, scope);
+    return {
+      text: renderTemplate(template.template, variables),
+      template: { id: template.id, version: template.version, locale: template.locale }
+    };
+  }
+
+  list(id?: string): PromptTemplate[] {
+    return this.templates.filter(template => !id || template.id === id).map(template => ({ ...template }));
+  }
+
+  /**
+   * Register every template in a JSON or YAML file holding an array or `{ templates: [...] }`.
+   * Nothing is registered unless every template is valid and new.
+   */
+  loadFromFile(filePath: string): PromptTemplate[] {
+    const content = fs.readFileSync(filePath, 'utf8');
+    const extension = path.extname(filePath).toLowerCase();
+    const parsed = extension === '.yaml' || extension === '.yml' ? parseYaml(content) : JSON.parse(content);
+    const templates: unknown = Array.isArray(parsed) ? parsed : parsed?.templates;
+
+    if (!Array.isArray(templates)) {
+      throw new Error(`Invalid prompt template file ${filePath}: expected an array or { templates: [...] }`);
+    }
+
+    const accepted: PromptTemplate[] = [];
+    const errors: string[] = [];
+    for (const template of templates as PromptTemplate[]) {
+      // Checked against earlier entries too, so a file cannot register one variant twice
+      const problem = this.validate(template, [...this.templates, ...accepted]);
+      if (problem) {
+        errors.push(problem);
+      } else {
+        accepted.push(template);
+      }
+    }
+    if (errors.length > 0) {
+      throw new Error(`Invalid prompt templates in ${filePath}:\n- ${errors.join('\n- ')}`);
+    }
+
+    accepted.forEach(template => this.templates.push({ ...template }));
+    return accepted;
+  }
+
+  /**
+   * Why a template cannot be registered alongside `registered`; null when it can
+   */
+  private validate(template: PromptTemplate, registered: PromptTemplate[]): string | null {
+    if (!template?.id || !Number.isInteger(template.version) || template.version < 1 || typeof template.template !== 'string') {
+      return `Invalid prompt template ${template?.id || '(unnamed)'}: needs an id, a positive integer version and a template`;
+    }
+
+    const key = this.variantKey(template);
+    return registered.some(existing => this.variantKey(existing) === key)
+      ? `Prompt template ${key} is already registered`
+      : null;
+  }
+
+  private variantKey(template: PromptTemplate): string {
+    return [
+      `${template.id}@v${template.version}`,
+      template.agentId && `agent=${template.agentId}`,
+      template.domain && `domain=${template.domain}`,
+      template.locale && `locale=${template.locale}`
+    ].filter(Boolean).join(' ');
+  }
+}
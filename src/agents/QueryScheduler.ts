@@ -0,0 +1,121 @@
+/**
+ * Query Scheduling for SovereigntyOS AI
+ * Limits concurrent orchestrator queries and admits queued ones by urgency and complexity
+ */
+
+import type { ReasoningContext } from './CognitiveOrchestrator';
+
+export class TaskCancelledError extends Error {
+  readonly taskId: string;
+
+  constructor(taskId: string, reason?: unknown) {
+    super(`Task ${taskId} was cancelled${reason instanceof Error ? `: ${reason.message}` : reason ? `: ${reason}` : ''}`);
+    this.name = 'TaskCancelledError';
+    this.taskId = taskId;
+  }
+}
+
+export interface QueuedQuery {
+  taskId: string;
+  priority: number;
+  urgency: ReasoningContext['urgency'];
+  complexity: ReasoningContext['complexity'];
+  enqueuedAt: Date;
+}
+
+const URGENCY_RANK: Record<ReasoningContext['urgency'], number> = { low: 0, medium: 1, high: 2, critical: 3 };
+const COMPLEXITY_RANK: Record<ReasoningContext['complexity'], number> = { simple: 0, medium: 1, complex: 2, critical: 3 };
+
+/**
+ * Urgency dominates; complexity breaks ties within an urgency level
+ */
+export function queryPriority(
+  urgency: ReasoningContext['urgency'],
+  complexity: ReasoningContext['complexity']
+): number {
+  return URGENCY_RANK[urgency] * 10 + COMPLEXITY_RANK[complexity];
+}
+
+interface Waiter {
+  entry: QueuedQuery;
+  admit: () => void;
+}
+
+export class QueryScheduler {
+  private maxConcurrent: number;
+  private running = 0;
+  private queue: Waiter[] = [];
+
+  constructor(maxConcurrent: number = Infinity) {
+    if (!(maxConcurrent >= 1)) {
+      throw new Error(`maxConcurrent must be at least 1, got ${maxConcurrent}`);
+    }
+    this.maxConcurrent = maxConcurrent;
+  }
+
+  /**
+   * Wait for a slot. Higher priority is admitted first, FIFO within a priority.
+   * Rejects with TaskCancelledError if the signal aborts while queued.
+   */
+  acquire(
+    taskId: string,
+    context: Pick<ReasoningContext, 'urgency' | 'complexity'>,
+    signal?: AbortSignal
+  ): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new TaskCancelledError(taskId, signal.reason));
+    }
+    if (this.running < this.maxConcurrent && this.queue.length === 0) {
+      this.running++;
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        this.queue = this.queue.filter(queued => queued !== waiter);
+        reject(new TaskCancelledError(taskId, signal!.reason));
+      };
+      const waiter: Waiter = {
+        entry: {
+          taskId,
+          priority: queryPriority(context.urgency, context.complexity),
+          urgency: context.urgency,
+          complexity: context.complexity,
+          enqueuedAt: new Date()
+        },
+        admit: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        }
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      const index = this.queue.findIndex(queued => queued.entry.priority < waiter.entry.priority);
+      this.queue.splice(index === -1 ? this.queue.length : index, 0, waiter);
+    });
+  }
+
+  release(): void {
+    const next = this.queue.shift();
+    if (next) {
+      next.admit(); // The slot passes straight to the next query
+    } else {
+      this.running = Math.max(0, this.running - 1);
+    }
+  }
+
+  /**
+   * Whether a query acquiring now would have to wait
+   */
+  isSaturated(): boolean {
+    return this.running >= this.maxConcurrent || this.queue.length > 0;
+  }
+
+  getQueued(): QueuedQuery[] {
+    return this.queue.map(waiter => ({ ...waiter.entry }));
+  }
+
+  getRunningCount(): number {
+    return this.running;
+  }
+}
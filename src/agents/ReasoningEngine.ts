@@ -3,9 +3,38 @@
  * Implements Chain-of-Thought, Tree-of-Thoughts, and Multi-Agent Reasoning
  */
 
-import { CognitiveOrchestrator } from './CognitiveOrchestrator';
-
-interface ThoughtNode {
+import { CognitiveOrchestrator, QueryResult, ReasoningContext } from './CognitiveOrchestrator';
+import { PromptTemplateRef, PromptTemplateRegistry, RenderedPrompt } from './PromptTemplates';
+import { JsonSchema } from './StructuredOutput';
+import {
+  Contradiction,
+  ContradictionDetector,
+  ContradictionDetectorConfig,
+  ContradictionJudge,
+  NLI_SCHEMA,
+  NliVerdict,
+  buildNliPrompt
+} from './ContradictionDetector';
+import {
+  InMemoryThoughtTreeStore,
+  ThoughtSearchCheckpoint,
+  ThoughtTreeFormat,
+  ThoughtTreeRun,
+  ThoughtTreeStore,
+  formatThoughtTree
+} from './ThoughtTreeStore';
+import { EvidenceGroundingConfig } from './EvidenceRetriever';
+import {
+  CriticalThinkingAssessment,
+  CriticalThinkingFramework,
+  Perspective,
+  PerspectivePack,
+  ReasoningLensRegistry,
+  buildCriticalAnalysisSchema,
+  scoreFramework
+} from './ReasoningFrameworks';
+
+export interface ThoughtNode {
   id: string;
   content: string;
   confidence: number;
@@ -13,9 +42,26 @@ interface ThoughtNode {
   parentId: string | null;
   childIds: string[];
   reasoning: string;
-  evidence: string[];
-  contradictions: string[];
+  evidence: ThoughtEvidence[];
+  contradictions: ThoughtContradiction[]; // Conflicts with ancestors on the node's path
   timestamp: Date;
+  promptTemplate?: PromptTemplateRef;
+  taskId?: string; // Orchestrator task that produced the thought; its logged confidences are what get judged
+  score?: number; // Score of the path from the root, set when the node is considered for expansion
+  pruned?: boolean;
+  visits?: number; // MCTS visit count
+  totalReward?: number; // Sum of MCTS rewards backpropagated through this node
+}
+
+export interface ThoughtEvidence {
+  text: string; // Retrieved snippet, or a claim the model cited
+  documentId?: string; // Corpus document the snippet came from; unset for the model's own claims
+  title?: string;
+  relevance?: number; // Retrieval similarity to the thought
+}
+
+export interface ThoughtContradiction extends Contradiction {
+  nodeId: string; // Ancestor holding the conflicting claim
 }
 
 interface ReasoningPath {
@@ -26,13 +72,121 @@ interface ReasoningPath {
   evidence_strength: number;
 }
 
-interface CriticalThinkingFramework {
-  analyse_assumptions: boolean;
-  evaluate_evidence: boolean;
-  consider_alternatives: boolean;
-  check_logical_consistency: boolean;
-  assess_credibility: boolean;
-  identify_biases: boolean;
+interface StructuredThought {
+  content: string;
+  evidence: string[];
+}
+
+interface StructuredCriticalAnalysis {
+  assumptions: string[];
+  alternatives: string[];
+  biases: string[];
+  criteria: Record<string, { score: number; rationale: string }>;
+}
+
+const stringList = (description: string): JsonSchema => ({ type: 'array', items: { type: 'string' }, description });
+
+const THOUGHT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    content: { type: 'string', description: 'Your analysis and reasoning' },
+    evidence: stringList('Facts, data or sources the analysis relies on')
+  },
+  required: ['content', 'evidence']
+};
+
+/**
+ * - beam: level-by-level Tree-of-Thoughts expansion with beam pruning
+ * - mcts: Monte Carlo Tree Search with UCT selection and evaluatePath scores as rewards
+ */
+export type ThoughtSearchStrategy = 'beam' | 'mcts';
+
+/**
+ * Bounds on the thought tree explored by performAdvancedReasoning
+ */
+export interface ThoughtSearchConfig {
+  strategy?: ThoughtSearchStrategy; // Default 'beam'
+  breadth?: number; // Initial perspectives, at most the perspective pack's size; default 5
+  branching?: number; // Children per expanded node, 1-3; default 2
+  maxDepth?: number; // Expansion levels below the initial thoughts; default 3
+  beamWidth?: number; // Beam only: highest-scoring nodes expanded per level; default unlimited
+  minScore?: number; // Beam only: nodes whose path scores below this are pruned; default 0.6
+  plateauPatience?: number; // Beam only: stop after this many levels without the best path improving; default never
+  plateauDelta?: number; // Beam only: smallest best-path gain that counts as improvement; default 0.01
+  iterations?: number; // MCTS only: selection-expansion-rollout rounds; default 20
+  explorationConstant?: number; // MCTS only: UCT exploration weight; default √2
+  rolloutDepth?: number; // MCTS only: throwaway thoughts generated past a new node before scoring; default 1
+  maxTokens?: number; // Token budget for the whole call, checked before each query
+  maxCost?: number; // Cost budget for the whole call; also caps each query's maxCost
+}
+
+export interface ThoughtSearchStats {
+  strategy: ThoughtSearchStrategy;
+  nodesGenerated: number;
+  nodesPruned: number;
+  depthReached: number;
+  stopReason: 'max-depth' | 'no-candidates' | 'plateau' | 'budget' | 'iterations';
+  iterations?: number; // MCTS rounds completed
+  tokens: number;
+  cost: number;
+}
+
+/**
+ * Coherence lost per fully confident contradiction with an ancestor
+ */
+const CONTRADICTION_PENALTY = 0.3;
+
+const EXPANSION_STRATEGIES = ['deeper_analysis', 'alternative_approach', 'evidence_examination'];
+
+const DEFAULT_SEARCH_CONFIG: Required<ThoughtSearchConfig> = {
+  strategy: 'beam',
+  breadth: 5,
+  branching: 2,
+  maxDepth: 3,
+  beamWidth: Infinity,
+  minScore: 0.6,
+  plateauPatience: Infinity,
+  plateauDelta: 0.01,
+  iterations: 20,
+  explorationConstant: Math.SQRT2,
+  rolloutDepth: 1,
+  maxTokens: Infinity,
+  maxCost: Infinity
+};
+
+export interface AdvancedReasoningContext {
+  domain?: string;
+  complexity?: 'simple' | 'medium' | 'complex' | 'expert';
+  requires_creativity?: boolean;
+  requires_analysis?: boolean;
+  requires_synthesis?: boolean;
+  perspectives?: string | PerspectivePack; // Registered pack name or an inline pack; default 'general'
+  framework?: string | CriticalThinkingFramework; // Registered framework name or an inline one; default 'general'
+}
+
+export interface AdvancedReasoningResult {
+  runId: string;
+  conclusion: string;
+  reasoning_path: ThoughtNode[];
+  confidence: number;
+  alternatives: string[];
+  evidence: ThoughtEvidence[];
+  assumptions: string[];
+  potential_biases: string[];
+  critical_thinking: CriticalThinkingAssessment;
+  contradictions: ThoughtContradiction[];
+  search: ThoughtSearchStats;
+}
+
+type SearchOutcome = Pick<ThoughtSearchStats, 'depthReached' | 'stopReason' | 'iterations'>;
+
+interface SearchState {
+  config: Required<ThoughtSearchConfig>;
+  tokens: number;
+  cost: number;
+  budgetExhausted: boolean;
+  nodesPruned: number;
+  run: ThoughtTreeRun;
 }
 
 export class ReasoningEngine {
@@ -40,134 +194,465 @@ export class ReasoningEngine {
   private reasoningPaths: ReasoningPath[] = [];
   private cognitiveOrchestrator: CognitiveOrchestrator;
   private criticalThinkingEnabled: boolean = true;
-
-  constructor(orchestrator: CognitiveOrchestrator) {
+  private promptTemplates: PromptTemplateRegistry;
+  private locale?: string;
+  private searchConfig: ThoughtSearchConfig;
+  private contradictionDetector: ContradictionDetector;
+  private nliAgentId?: string;
+  private treeStore: ThoughtTreeStore;
+  private evidenceGrounding?: EvidenceGroundingConfig;
+  private lenses: ReasoningLensRegistry;
+
+  constructor(
+    orchestrator: CognitiveOrchestrator,
+    options: {
+      promptTemplates?: PromptTemplateRegistry;
+      locale?: string;
+      search?: ThoughtSearchConfig;
+      contradictions?: ContradictionDetectorConfig;
+      treeStore?: ThoughtTreeStore;
+      evidence?: EvidenceGroundingConfig;
+      lenses?: ReasoningLensRegistry; // Perspective packs and frameworks that contexts can name
+    } = {}
+  ) {
     this.cognitiveOrchestrator = orchestrator;
+    // Share the orchestrator's templates so overrides apply to both
+    this.promptTemplates = options.promptTemplates || orchestrator.getPromptTemplates();
+    this.locale = options.locale;
+    this.searchConfig = options.search || {};
+    this.contradictionDetector = new ContradictionDetector(options.contradictions);
+    this.nliAgentId = options.contradictions?.nliAgentId;
+    this.treeStore = options.treeStore || new InMemoryThoughtTreeStore();
+    this.evidenceGrounding = options.evidence;
+    this.lenses = options.lenses || new ReasoningLensRegistry();
   }
 
   /**
-   * Advanced reasoning with Tree-of-Thoughts methodology
+   * Advanced reasoning with Tree-of-Thoughts methodology. The tree is checkpointed to the
+   * tree store under `runId` (generated when omitted) as it grows; see resumeReasoning.
    */
   async performAdvancedReasoning(
     query: string,
-    context: {
-      domain?: string;
-      complexity?: 'simple' | 'medium' | 'complex' | 'expert';
-      requires_creativity?: boolean;
-      requires_analysis?: boolean;
-      requires_synthesis?: boolean;
-    } = {}
-  ): Promise<{
-    conclusion: string;
-    reasoning_path: ThoughtNode[];
-    confidence: number;
-    alternatives: string[];
-    evidence: string[];
-    assumptions: string[];
-    potential_biases: string[];
-  }> {
-    console.log('🧠 Starting advanced reasoning for:', query);
+    context: AdvancedReasoningContext = {},
+    search: ThoughtSearchConfig = {},
+    runId: string = this.generateRunId()
+  ): Promise<AdvancedReasoningResult> {
+    // Fail on an unknown lens before anything is spent
+    this.lenses.getPerspectivePack(context.perspectives || 'general');
+    this.lenses.getFramework(context.framework || 'general');
+    if (await this.treeStore.load(runId)) {
+      throw new Error(`Reasoning run ${runId} already exists; use resumeReasoning to continue it`);
+    }
+
+    const now = new Date();
+    return this.runReasoning({
+      runId,
+      query,
+      context,
+      search: { ...this.searchConfig, ...search },
+      status: 'running',
+      rootIds: [],
+      nodes: [],
+      checkpoint: { phase: 'initial', nodesPruned: 0, tokens: 0, cost: 0 },
+      createdAt: now,
+      updatedAt: now
+    });
+  }
+
+  /**
+   * Continue an interrupted run from its last checkpoint: unfinished initial perspectives,
+   * the beam frontier or the next MCTS round, then the final analysis. Spend so far counts
+   * against the run's budget.
+   */
+  async resumeReasoning(runId: string): Promise<AdvancedReasoningResult> {
+    const run = await this.treeStore.load(runId);
+    if (!run) {
+      throw new Error(`Reasoning run ${runId} not found`);
+    }
+    if (run.status === 'completed') {
+      throw new Error(`Reasoning run ${runId} has already completed`);
+    }
+
+    run.nodes.forEach(node => this.thoughtTree.set(node.id, node));
+    return this.runReasoning(run);
+  }
+
+  private async runReasoning(run: ThoughtTreeRun): Promise<AdvancedReasoningResult> {
+    console.log('🧠 Starting advanced reasoning for:', run.query);
+    // Unbounded settings such as beamWidth: Infinity come back from JSON as null
+    const search = Object.fromEntries(Object.entries(run.search).filter(([, value]) => value !== null));
+    const state: SearchState = {
+      config: { ...DEFAULT_SEARCH_CONFIG, ...search },
+      tokens: run.checkpoint.tokens,
+      cost: run.checkpoint.cost,
+      budgetExhausted: false,
+      nodesPruned: run.checkpoint.nodesPruned,
+      run
+    };
+    run.status = 'running';
+    delete run.error;
+
+    try {
+      return await this.reason(run, state);
+    } catch (error) {
+      run.status = 'interrupted';
+      run.error = error instanceof Error ? error.message : String(error);
+      await this.saveRun(state);
+      throw error;
+    }
+  }
+
+  private async reason(run: ThoughtTreeRun, state: SearchState): Promise<AdvancedReasoningResult> {
+    const { query, context } = run;
 
     // Phase 1: Generate initial thought branches
-    const initialThoughts = await this.generateInitialThoughts(query, context);
-    
+    if (run.checkpoint.phase === 'initial') {
+      await this.generateInitialThoughts(query, context, state);
+      if (run.rootIds.length === 0) {
+        throw new Error('Reasoning budget exhausted before any thought was generated');
+      }
+      await this.checkpoint(state, { phase: 'search' });
+    }
+    const initialThoughts = run.rootIds.map(id => this.thoughtTree.get(id)!);
+
     // Phase 2: Expand thought tree with multiple reasoning paths
-    const expandedTree = await this.expandReasoningTree(initialThoughts, context);
-    
-    // Phase 3: Critical evaluation of all paths
-    const evaluatedPaths = await this.evaluateReasoningPaths(expandedTree, context);
-    
-    // Phase 4: Synthesize best reasoning path
-    const bestPath = this.selectOptimalReasoningPath(evaluatedPaths);
+    let outcome = run.checkpoint.outcome;
+    if (!outcome) {
+      outcome = state.config.strategy === 'mcts'
+        ? await this.runMonteCarloSearch(initialThoughts, context, state)
+        : await this.expandReasoningTree(initialThoughts, context, state);
+      await this.checkpoint(state, { phase: 'analysis', outcome });
+    }
+
+    let bestPath: ReasoningPath;
+    if (state.config.strategy === 'mcts') {
+      // Phases 3-4: Follow the most visited branch
+      const nodes = this.mostVisitedPath(initialThoughts);
+      bestPath = { nodes, ...(await this.evaluatePath(nodes, context)) };
+    } else {
+      // Phase 3: Critical evaluation of all paths
+      const evaluatedPaths = await this.evaluateReasoningPaths(this.runNodes(run), context);
+      
+      // Phase 4: Synthesize best reasoning path
+      bestPath = this.selectOptimalReasoningPath(evaluatedPaths);
+    }
+    run.bestPath = bestPath.nodes.map(node => node.id);
+    run.score = bestPath.score;
     
     // Phase 5: Critical thinking validation
-    const validatedConclusion = await this.applyCriticalThinking(bestPath, query, context);
+    const validatedConclusion = await this.applyCriticalThinking(bestPath, query, context, state);
+
+    run.status = 'completed';
+    await this.saveRun(state);
     
-    return validatedConclusion;
+    return {
+      runId: run.runId,
+      ...validatedConclusion,
+      contradictions: bestPath.nodes.flatMap(node => node.contradictions),
+      search: {
+        strategy: state.config.strategy,
+        nodesGenerated: run.nodes.length,
+        nodesPruned: state.nodesPruned,
+        ...outcome,
+        tokens: state.tokens,
+        cost: state.cost
+      }
+    };
+  }
+
+  /**
+   * Every node reachable from the run's initial thoughts, breadth first
+   */
+  private runNodes(run: ThoughtTreeRun): ThoughtNode[] {
+    const nodes: ThoughtNode[] = [];
+    const queue = run.rootIds
+      .map(id => this.thoughtTree.get(id))
+      .filter((node): node is ThoughtNode => node !== undefined);
+
+    for (let node = queue.shift(); node; node = queue.shift()) {
+      nodes.push(node);
+      queue.push(...this.childrenOf(node));
+    }
+    return nodes;
+  }
+
+  private async saveRun(state: SearchState): Promise<void> {
+    const { run } = state;
+    run.nodes = this.runNodes(run);
+    run.checkpoint = { ...run.checkpoint, nodesPruned: state.nodesPruned, tokens: state.tokens, cost: state.cost };
+    run.updatedAt = new Date();
+    await this.treeStore.save(run);
+  }
+
+  private checkpoint(state: SearchState, progress: Partial<ThoughtSearchCheckpoint>): Promise<void> {
+    state.run.checkpoint = { ...state.run.checkpoint, ...progress };
+    return this.saveRun(state);
+  }
+
+  /**
+   * Query the orchestrator within the remaining budget; null once the budget is spent
+   */
+  private async ask<T>(
+    prompt: string,
+    context: Partial<ReasoningContext>,
+    state: SearchState
+  ): Promise<QueryResult<T> | null> {
+    const remainingCost = state.config.maxCost - state.cost;
+    const cheapestAgent = Math.min(
+      ...this.cognitiveOrchestrator.listAgents().filter(agent => agent.enabled).map(agent => agent.costPerQuery)
+    );
+    if (state.tokens >= state.config.maxTokens || cheapestAgent > remainingCost) {
+      state.budgetExhausted = true;
+      return null;
+    }
+
+    const response = await this.cognitiveOrchestrator.processComplexQuery<T>(prompt, {
+      ...context,
+      maxCost: Number.isFinite(remainingCost) ? remainingCost : undefined
+    });
+    state.cost += response.cost;
+    state.tokens += response.reasoningChain.reduce((sum, step) => sum + (step.tokens || 0), 0);
+    return response;
   }
 
   /**
-   * Generate multiple initial thought branches using different AI agents
+   * Generate multiple initial thought branches using different AI agents, skipping
+   * perspectives the run already has
    */
   private async generateInitialThoughts(
     query: string,
-    context: any
-  ): Promise<ThoughtNode[]> {
-    const perspectives = [
-      'analytical_perspective',
-      'creative_perspective',
-      'skeptical_perspective',
-      'practical_perspective',
-      'ethical_perspective'
-    ];
-
-    const initialThoughts: ThoughtNode[] = [];
+    context: any,
+    state: SearchState
+  ): Promise<void> {
+    const pack = this.lenses.getPerspectivePack(context.perspectives || 'general');
+    const { rootIds } = state.run;
 
-    for (const perspective of perspectives) {
+    for (const perspective of pack.perspectives.slice(rootIds.length, Math.max(1, state.config.breadth))) {
       const thoughtPrompt = this.constructPerspectivePrompt(query, perspective, context);
       
-      const response = await this.cognitiveOrchestrator.processComplexQuery(
-        thoughtPrompt,
+      const response = await this.ask<StructuredThought>(
+        thoughtPrompt.text,
         {
           complexity: 'medium',
           domain: context.domain || 'general',
-          metadata: { perspective, reasoning_phase: 'initial_thoughts' }
-        }
+          outputSchema: THOUGHT_SCHEMA,
+          metadata: { perspective: perspective.id, perspective_pack: pack.name, reasoning_phase: 'initial_thoughts' }
+        },
+        state
       );
+      if (!response) break;
+      const thought = response.data!;
 
       const thoughtNode: ThoughtNode = {
         id: this.generateNodeId(),
-        content: response.response,
+        content: thought.content,
         confidence: response.confidence,
         depth: 0,
         parentId: null,
         childIds: [],
-        reasoning: `Generated from ${perspective}`,
-        evidence: this.extractEvidence(response.response),
+        reasoning: `Generated from ${perspective.id}`,
+        evidence: await this.groundThought(thought, context),
         contradictions: [],
-        timestamp: new Date()
+        timestamp: new Date(),
+        promptTemplate: thoughtPrompt.template,
+        taskId: response.metadata.taskId
       };
 
       this.thoughtTree.set(thoughtNode.id, thoughtNode);
-      initialThoughts.push(thoughtNode);
+      rootIds.push(thoughtNode.id);
+      await this.saveRun(state);
     }
-
-    return initialThoughts;
   }
 
   /**
-   * Expand reasoning tree by generating child thoughts for each branch
+   * Beam search over the thought tree: each level keeps the highest-scoring nodes that clear
+   * minScore and expands them, stopping at maxDepth, on a best-score plateau or when the budget runs out.
+   * A resumed run restarts at its checkpointed level, keeping children already generated there.
    */
   private async expandReasoningTree(
     initialThoughts: ThoughtNode[],
     context: any,
-    maxDepth: number = 3
-  ): Promise<ThoughtNode[]> {
-    let currentLevel = initialThoughts;
-    let allNodes = [...initialThoughts];
+    state: SearchState
+  ): Promise<SearchOutcome> {
+    const { maxDepth, beamWidth, minScore, plateauPatience, plateauDelta } = state.config;
+    const { checkpoint } = state.run;
+    let currentLevel = checkpoint.frontier?.map(id => this.thoughtTree.get(id)!) || initialThoughts;
+    let bestScore = checkpoint.bestScore ?? -Infinity;
+    let levelsWithoutGain = checkpoint.levelsWithoutGain ?? 0;
+    let depthReached = (checkpoint.depth ?? 1) - 1;
+
+    for (let depth = checkpoint.depth ?? 1; depth <= maxDepth; depth++) {
+      await this.checkpoint(state, {
+        depth,
+        frontier: currentLevel.map(node => node.id),
+        bestScore: Number.isFinite(bestScore) ? bestScore : undefined,
+        levelsWithoutGain
+      });
+
+      for (const node of currentLevel) {
+        node.score = (await this.evaluatePath(this.pathToNode(node), context)).score;
+      }
+
+      const levelBest = Math.max(...currentLevel.map(node => node.score!));
+      levelsWithoutGain = levelBest >= bestScore + plateauDelta ? 0 : levelsWithoutGain + 1;
+      bestScore = Math.max(bestScore, levelBest);
+      if (levelsWithoutGain >= plateauPatience) {
+        return { depthReached, stopReason: 'plateau' };
+      }
+
+      const ranked = [...currentLevel].sort((a, b) => b.score! - a.score!);
+      const beam = ranked.filter(node => node.score! >= minScore).slice(0, beamWidth);
+      for (const node of ranked.filter(node => !beam.includes(node) && !node.pruned)) {
+        node.pruned = true;
+        state.nodesPruned++;
+      }
 
-    for (let depth = 1; depth <= maxDepth; depth++) {
       const nextLevel: ThoughtNode[] = [];
+      for (const parentNode of beam) {
+        if (parentNode.childIds.length > 0) {
+          nextLevel.push(...this.childrenOf(parentNode));
+          continue;
+        }
 
-      for (const parentNode of currentLevel) {
-        // Generate 2-3 child thoughts for each promising parent
-        if (parentNode.confidence > 0.6) {
-          const childThoughts = await this.generateChildThoughts(parentNode, context, depth);
-          
-          for (const childThought of childThoughts) {
-            parentNode.childIds.push(childThought.id);
-            this.thoughtTree.set(childThought.id, childThought);
-            nextLevel.push(childThought);
-            allNodes.push(childThought);
-          }
+        const childThoughts = await this.generateChildThoughts(parentNode, context, depth, state);
+        for (const childThought of childThoughts) {
+          parentNode.childIds.push(childThought.id);
+          this.thoughtTree.set(childThought.id, childThought);
+          nextLevel.push(childThought);
         }
+        await this.saveRun(state);
+        if (state.budgetExhausted) break;
       }
 
+      if (nextLevel.length > 0) depthReached = depth;
+      if (state.budgetExhausted) {
+        return { depthReached, stopReason: 'budget' };
+      }
       currentLevel = nextLevel;
-      if (currentLevel.length === 0) break;
+      if (currentLevel.length === 0) {
+        return { depthReached, stopReason: 'no-candidates' };
+      }
+    }
+
+    return { depthReached, stopReason: 'max-depth' };
+  }
+
+  /**
+   * MCTS over thoughts: each round descends by UCT through fully expanded nodes, adds one child
+   * with the next unused strategy, scores a short rollout past it with evaluatePath, and
+   * backpropagates that reward to every node on the path. A resumed run continues after its
+   * last completed round.
+   */
+  private async runMonteCarloSearch(
+    initialThoughts: ThoughtNode[],
+    context: any,
+    state: SearchState
+  ): Promise<SearchOutcome> {
+    const { iterations, explorationConstant, maxDepth, rolloutDepth } = state.config;
+    const branching = Math.max(1, Math.min(state.config.branching, EXPANSION_STRATEGIES.length));
+    const expandable = (node: ThoughtNode) => node.depth < maxDepth && node.childIds.length < branching;
+    const result = (stopReason: ThoughtSearchStats['stopReason'], completed: number) => ({
+      depthReached: Math.max(...this.runNodes(state.run).map(node => node.depth)),
+      stopReason,
+      iterations: completed
+    });
+
+    for (const root of initialThoughts.filter(root => !root.visits)) {
+      this.backpropagate([root], (await this.evaluatePath([root], context)).score);
+    }
+
+    for (let completed = state.run.checkpoint.iterations ?? 0; completed < iterations; completed++) {
+      if (!this.runNodes(state.run).some(expandable)) {
+        return result('no-candidates', completed);
+      }
+
+      // Selection
+      const path = [this.selectByUct(initialThoughts, explorationConstant)];
+      while (!expandable(path[path.length - 1]) && path[path.length - 1].childIds.length > 0) {
+        path.push(this.selectByUct(this.childrenOf(path[path.length - 1]), explorationConstant));
+      }
+
+      // Expansion
+      const leaf = path[path.length - 1];
+      if (expandable(leaf)) {
+        const child = await this.generateChildThought(
+          leaf, EXPANSION_STRATEGIES[leaf.childIds.length], context, leaf.depth + 1, state
+        );
+        if (!child) return result('budget', completed);
+        leaf.childIds.push(child.id);
+        this.thoughtTree.set(child.id, child);
+        path.push(child);
+      }
+
+      // Rollout: throwaway thoughts that never join the tree, cycling through the strategies
+      const rollout = [...path];
+      for (let step = 0; step < rolloutDepth && rollout[rollout.length - 1].depth < maxDepth; step++) {
+        const last = rollout[rollout.length - 1];
+        const simulated = await this.generateChildThought(
+          last, EXPANSION_STRATEGIES[(last.depth + step) % branching], context, last.depth + 1, state
+        );
+        if (!simulated) break;
+        rollout.push(simulated);
+      }
+
+      // Backpropagation
+      this.backpropagate(path, (await this.evaluatePath(rollout, context)).score);
+      await this.checkpoint(state, { iterations: completed + 1 });
+      if (state.budgetExhausted) return result('budget', completed + 1);
+    }
+
+    return result('iterations', iterations);
+  }
+
+  /**
+   * Unvisited nodes first, then the highest upper confidence bound
+   */
+  private selectByUct(nodes: ThoughtNode[], explorationConstant: number): ThoughtNode {
+    const parentVisits = nodes.reduce((sum, node) => sum + (node.visits || 0), 0);
+    const uct = (node: ThoughtNode) => !node.visits
+      ? Infinity
+      : node.totalReward! / node.visits + explorationConstant * Math.sqrt(Math.log(parentVisits) / node.visits);
+
+    return nodes.reduce((best, node) => uct(node) > uct(best) ? node : best);
+  }
+
+  private backpropagate(path: ThoughtNode[], reward: number): void {
+    for (const node of path) {
+      node.visits = (node.visits || 0) + 1;
+      node.totalReward = (node.totalReward || 0) + reward;
     }
+  }
+
+  /**
+   * The robust MCTS choice: most visited node at each level, mean reward breaking ties
+   */
+  private mostVisitedPath(roots: ThoughtNode[]): ThoughtNode[] {
+    const mean = (node: ThoughtNode) => (node.totalReward || 0) / (node.visits || 1);
+    const best = (nodes: ThoughtNode[]) =>
+      [...nodes].sort((a, b) => (b.visits || 0) - (a.visits || 0) || mean(b) - mean(a))[0];
+
+    const path = [best(roots)];
+    for (let children = this.childrenOf(path[0]); children.length > 0; children = this.childrenOf(path[path.length - 1])) {
+      path.push(best(children));
+    }
+    return path;
+  }
+
+  private childrenOf(node: ThoughtNode): ThoughtNode[] {
+    return node.childIds
+      .map(childId => this.thoughtTree.get(childId))
+      .filter((child): child is ThoughtNode => child !== undefined);
+  }
 
-    return allNodes;
+  private pathToNode(node: ThoughtNode): ThoughtNode[] {
+    const path = [node];
+    for (let parentId = node.parentId; parentId !== null;) {
+      const parent = this.thoughtTree.get(parentId);
+      if (!parent) break;
+      path.unshift(parent);
+      parentId = parent.parentId;
+    }
+    return path;
   }
 
   /**
@@ -176,47 +661,62 @@ export class ReasoningEngine {
   private async generateChildThoughts(
     parentNode: ThoughtNode,
     context: any,
-    depth: number
+    depth: number,
+    state: SearchState
   ): Promise<ThoughtNode[]> {
-    const expansionStrategies = [
-      'deeper_analysis',
-      'alternative_approach',
-      'evidence_examination'
-    ];
-
     const childThoughts: ThoughtNode[] = [];
 
-    for (const strategy of expansionStrategies.slice(0, 2)) { // Limit to 2 children per parent
-      const expansionPrompt = this.constructExpansionPrompt(parentNode, strategy, context);
-      
-      const response = await this.cognitiveOrchestrator.processComplexQuery(
-        expansionPrompt,
-        {
-          complexity: depth > 2 ? 'complex' : 'medium',
-          domain: context.domain || 'general',
-          metadata: { expansion_strategy: strategy, parent_id: parentNode.id }
-        }
-      );
-
-      const childNode: ThoughtNode = {
-        id: this.generateNodeId(),
-        content: response.response,
-        confidence: response.confidence * (1 - depth * 0.1), // Decrease confidence with depth
-        depth,
-        parentId: parentNode.id,
-        childIds: [],
-        reasoning: `Expanded from parent using ${strategy}`,
-        evidence: this.extractEvidence(response.response),
-        contradictions: await this.identifyContradictions(response.response, parentNode.content),
-        timestamp: new Date()
-      };
-
+    for (const strategy of EXPANSION_STRATEGIES.slice(0, Math.max(1, state.config.branching))) {
+      const childNode = await this.generateChildThought(parentNode, strategy, context, depth, state);
+      if (!childNode) break;
       childThoughts.push(childNode);
     }
 
     return childThoughts;
   }
 
+  /**
+   * One child thought using the given expansion strategy; null once the budget is spent.
+   * The caller decides whether it joins the tree.
+   */
+  private async generateChildThought(
+    parentNode: ThoughtNode,
+    strategy: string,
+    context: any,
+    depth: number,
+    state: SearchState
+  ): Promise<ThoughtNode | null> {
+    const expansionPrompt = this.constructExpansionPrompt(parentNode, strategy, context);
+    
+    const response = await this.ask<StructuredThought>(
+      expansionPrompt.text,
+      {
+        complexity: depth > 2 ? 'complex' : 'medium',
+        domain: context.domain || 'general',
+        outputSchema: THOUGHT_SCHEMA,
+        metadata: { expansion_strategy: strategy, parent_id: parentNode.id }
+      },
+      state
+    );
+    if (!response) return null;
+    const thought = response.data!;
+
+    return {
+      id: this.generateNodeId(),
+      content: thought.content,
+      confidence: response.confidence * (1 - depth * 0.1), // Decrease confidence with depth
+      depth,
+      parentId: parentNode.id,
+      childIds: [],
+      reasoning: `Expanded from parent using ${strategy}`,
+      evidence: await this.groundThought(thought, context),
+      contradictions: await this.identifyContradictions(thought.content, this.pathToNode(parentNode), state),
+      timestamp: new Date(),
+      promptTemplate: expansionPrompt.template,
+      taskId: response.metadata.taskId
+    };
+  }
+
   /**
    * Evaluate all reasoning paths and score them
    */
@@ -224,7 +724,11 @@ export class ReasoningEngine {
     allNodes: ThoughtNode[],
     context: any
   ): Promise<ReasoningPath[]> {
-    const paths = this.extractReasoningPaths(allNodes);
+    const livePaths = this.extractReasoningPaths(allNodes);
+    // When every branch was pruned, judge the initial thoughts on their own rather than conclude nothing
+    const paths = livePaths.length > 0
+      ? livePaths
+      : allNodes.filter(node => node.parentId === null).map(node => [node]);
     const evaluatedPaths: ReasoningPath[] = [];
 
     for (const path of paths) {
@@ -242,10 +746,10 @@ export class ReasoningEngine {
   }
 
   /**
-   * Extract all possible reasoning paths from root to leaf nodes
+   * Extract all possible reasoning paths from root to leaf nodes; pruned branches are skipped
    */
   private extractReasoningPaths(allNodes: ThoughtNode[]): ThoughtNode[][] {
-    const rootNodes = allNodes.filter(node => node.parentId === null);
+    const rootNodes = allNodes.filter(node => node.parentId === null && !node.pruned);
     const paths: ThoughtNode[][] = [];
 
     for (const root of rootNodes) {
@@ -263,17 +767,16 @@ export class ReasoningEngine {
     currentPath: ThoughtNode[],
     allPaths: ThoughtNode[][]
   ): void {
-    if (node.childIds.length === 0) {
+    const children = this.childrenOf(node).filter(child => !child.pruned);
+
+    if (children.length === 0) {
       // Leaf node - add current path
       allPaths.push([...currentPath]);
       return;
     }
 
-    for (const childId of node.childIds) {
-      const childNode = this.thoughtTree.get(childId);
-      if (childNode) {
-        this.findPathsFromNode(childNode, [...currentPath, childNode], allPaths);
-      }
+    for (const childNode of children) {
+      this.findPathsFromNode(childNode, [...currentPath, childNode], allPaths);
     }
   }
 
@@ -309,8 +812,9 @@ export class ReasoningEngine {
 
     let coherenceSum = 0;
     for (let i = 1; i < path.length; i++) {
-      // Simple coherence calculation based on confidence and contradiction count
-      const contradictionPenalty = path[i].contradictions.length * 0.1;
+      // Coherence falls with each contradiction, weighted by how sure the detector is
+      const contradictionPenalty = path[i].contradictions
+        .reduce((sum, contradiction) => sum + contradiction.confidence * CONTRADICTION_PENALTY, 0);
       const nodeCoherence = Math.max(0, path[i].confidence - contradictionPenalty);
       coherenceSum += nodeCoherence;
     }
@@ -326,6 +830,12 @@ export class ReasoningEngine {
   }
 
   private calculateEvidenceStrength(path: ThoughtNode[]): number {
+    if (this.evidenceGrounding) {
+      // Each thought counts its most relevant retrieved passage; thoughts no document supports count zero
+      const relevance = path.map(node => Math.max(0, ...node.evidence.map(evidence => evidence.relevance ?? 0)));
+      return relevance.reduce((sum, value) => sum + value, 0) / path.length;
+    }
+
     const totalEvidence = path.reduce((sum, node) => sum + node.evidence.length, 0);
     return Math.min(totalEvidence / (path.length * 2), 1.0);
   }
@@ -344,45 +854,58 @@ export class ReasoningEngine {
   private async applyCriticalThinking(
     bestPath: ReasoningPath,
     originalQuery: string,
-    context: any
+    context: any,
+    state: SearchState
   ): Promise<{
     conclusion: string;
     reasoning_path: ThoughtNode[];
     confidence: number;
     alternatives: string[];
-    evidence: string[];
+    evidence: ThoughtEvidence[];
     assumptions: string[];
     potential_biases: string[];
+    critical_thinking: CriticalThinkingAssessment;
   }> {
     const finalNode = bestPath.nodes[bestPath.nodes.length - 1];
     
     // Apply critical thinking framework
-    const criticalAnalysis = await this.performCriticalAnalysis(bestPath, originalQuery);
+    const framework = this.lenses.getFramework(context.framework || 'general');
+    const criticalAnalysis = await this.performCriticalAnalysis(bestPath, originalQuery, framework, state);
     
     return {
       conclusion: finalNode?.content || 'No conclusion reached',
       reasoning_path: bestPath.nodes,
+      // Built from already calibrated node confidences, so not calibrated again
       confidence: bestPath.score,
       alternatives: criticalAnalysis.alternatives,
       evidence: criticalAnalysis.evidence,
       assumptions: criticalAnalysis.assumptions,
-      potential_biases: criticalAnalysis.biases
+      potential_biases: criticalAnalysis.biases,
+      critical_thinking: criticalAnalysis.assessment
     };
   }
 
   /**
-   * Perform critical analysis of the reasoning path
+   * Perform critical analysis of the reasoning path, scoring each of the framework's criteria
    */
   private async performCriticalAnalysis(
     path: ReasoningPath,
-    originalQuery: string
+    originalQuery: string,
+    framework: CriticalThinkingFramework,
+    state: SearchState
   ): Promise<{
     alternatives: string[];
-    evidence: string[];
+    evidence: ThoughtEvidence[];
     assumptions: string[];
     biases: string[];
+    assessment: CriticalThinkingAssessment;
   }> {
-    const allEvidence = path.nodes.reduce((acc, node) => [...acc, ...node.evidence], [] as string[]);
+    // A passage grounding several thoughts is reported once
+    const allEvidence = path.nodes
+      .flatMap(node => node.evidence)
+      .filter((evidence, i, all) =>
+        all.findIndex(other => other.text === evidence.text && other.documentId === evidence.documentId) === i
+      );
     
     // Generate critical analysis using the cognitive orchestrator
     const criticalPrompt = `
@@ -398,99 +921,133 @@ Identify:
 3. Potential cognitive biases
 4. Strength of evidence presented
 
-Provide structured analysis.
+Score each criterion of the ${framework.name} framework from 0 (fails) to 1 (fully meets), with a short rationale:
+${framework.criteria.map(criterion => `- ${criterion.id}: ${criterion.question}`).join('\n')}
 `;
 
-    const analysis = await this.cognitiveOrchestrator.processComplexQuery(
+    const analysis = await this.ask<StructuredCriticalAnalysis>(
       criticalPrompt,
       {
         complexity: 'complex',
         domain: 'critical_thinking',
-        metadata: { analysis_type: 'critical_validation' }
-      }
+        outputSchema: buildCriticalAnalysisSchema(framework),
+        metadata: { analysis_type: 'critical_validation', framework: framework.name }
+      },
+      state
     );
+    // Without budget for the analysis, report the evidence alone
+    const structured = analysis?.data || { alternatives: [], assumptions: [], biases: [], criteria: undefined };
 
     return {
-      alternatives: this.extractAlternatives(analysis.response),
+      alternatives: structured.alternatives,
       evidence: allEvidence,
-      assumptions: this.extractAssumptions(analysis.response),
-      biases: this.extractBiases(analysis.response)
+      assumptions: structured.assumptions,
+      biases: structured.biases,
+      assessment: scoreFramework(framework, structured.criteria)
     };
   }
 
   // Helper methods
-  private constructPerspectivePrompt(query: string, perspective: string, context: any): string {
-    const perspectiveInstructions = {
-      analytical_perspective: 'Analyze this systematically with data and logic',
-      creative_perspective: 'Approach this with creative and innovative thinking',
-      skeptical_perspective: 'Question assumptions and look for potential flaws',
-      practical_perspective: 'Focus on practical implementation and real-world constraints',
-      ethical_perspective: 'Consider ethical implications and moral dimensions'
-    };
-
-    return `
-From a ${perspective.replace('_', ' ')}, ${perspectiveInstructions[perspective as keyof typeof perspectiveInstructions]}:
-
-Query: ${query}
-
-Context: ${JSON.stringify(context)}
+  private constructPerspectivePrompt(query: string, perspective: Perspective, context: any): RenderedPrompt {
+    // The lenses shape the prompt itself rather than being repeated in its context
+    const promptContext = Object.fromEntries(
+      Object.entries(context).filter(([key]) => key !== 'perspectives' && key !== 'framework')
+    );
 
-Provide your analysis and reasoning.
-`;
+    return this.promptTemplates.render('reasoning.perspective', {
+      perspective: perspective.id.replace(/_/g, ' '),
+      instruction: perspective.instruction,
+      query,
+      context: JSON.stringify(promptContext)
+    }, { domain: context.domain, locale: this.locale });
   }
 
-  private constructExpansionPrompt(parentNode: ThoughtNode, strategy: string, context: any): string {
+  private constructExpansionPrompt(parentNode: ThoughtNode, strategy: string, context: any): RenderedPrompt {
     const strategyInstructions = {
       deeper_analysis: 'Dive deeper into the analysis with more detail and nuance',
       alternative_approach: 'Consider an alternative approach or perspective',
       evidence_examination: 'Examine and strengthen the evidence base'
     };
 
-    return `
-Building on this thought: "${parentNode.content}"
-
-Using ${strategy.replace('_', ' ')} strategy: ${strategyInstructions[strategy as keyof typeof strategyInstructions]}
-
-Expand and refine the reasoning.
-`;
-  }
-
-  private async identifyContradictions(newContent: string, parentContent: string): Promise<string[]> {
-    // Simple contradiction detection - would be more sophisticated in production
-    const contradictions: string[] = [];
-    
-    if (newContent.includes('not') && parentContent.includes('is')) {
-      contradictions.push('Potential negation contradiction detected');
-    }
-    
-    return contradictions;
+    return this.promptTemplates.render('reasoning.expansion', {
+      parentContent: parentNode.content,
+      strategy: strategy.replace('_', ' '),
+      instruction: strategyInstructions[strategy as keyof typeof strategyInstructions]
+    }, { domain: context.domain, locale: this.locale });
   }
 
-  private extractEvidence(content: string): string[] {
-    // Extract evidence markers from content
-    const evidenceMarkers = content.match(/evidence shows|research indicates|studies demonstrate|data reveals/gi) || [];
-    return evidenceMarkers;
+  /**
+   * The thought's cited evidence, preceded by the corpus passages most similar to the thought
+   * and its citations when evidence grounding is configured
+   */
+  private async groundThought(thought: StructuredThought, context: any): Promise<ThoughtEvidence[]> {
+    const claimed: ThoughtEvidence[] = thought.evidence.map(text => ({ text }));
+    if (!this.evidenceGrounding) return claimed;
+
+    const { retriever, limit, minRelevance } = this.evidenceGrounding;
+    const passages = await retriever.retrieve([thought.content, ...thought.evidence].join('\n'), {
+      domain: context.domain,
+      limit,
+      minRelevance
+    });
+    return [
+      ...passages.map(passage => ({
+        text: passage.snippet,
+        documentId: passage.documentId,
+        title: passage.title,
+        relevance: passage.relevance
+      })),
+      ...claimed
+    ];
   }
 
-  private extractAlternatives(content: string): string[] {
-    const alternatives = content.match(/alternatively|another approach|different perspective/gi) || [];
-    return alternatives.map(alt => `Alternative approach identified: ${alt}`);
-  }
+  /**
+   * Contradictions between a new thought and each ancestor on its path
+   */
+  private async identifyContradictions(
+    newContent: string,
+    ancestors: ThoughtNode[],
+    state: SearchState
+  ): Promise<ThoughtContradiction[]> {
+    const judge = this.nliAgentId ? this.createNliJudge(this.nliAgentId, state) : undefined;
+    const contradictions: ThoughtContradiction[] = [];
+
+    for (const ancestor of ancestors) {
+      const found = await this.contradictionDetector.detect(newContent, ancestor.content, judge);
+      contradictions.push(...found.map(contradiction => ({ ...contradiction, nodeId: ancestor.id })));
+    }
 
-  private extractAssumptions(content: string): string[] {
-    const assumptions = content.match(/assuming|if we assume|given that/gi) || [];
-    return assumptions.map(ass => `Assumption: ${ass}`);
+    return contradictions;
   }
 
-  private extractBiases(content: string): string[] {
-    const biases = content.match(/confirmation bias|availability heuristic|anchoring bias/gi) || [];
-    return biases.map(bias => `Potential bias: ${bias}`);
+  /**
+   * NLI checks run through the orchestrator on the configured agent and count against the search budget
+   */
+  private createNliJudge(agentId: string, state: SearchState): ContradictionJudge {
+    return async (premise, hypothesis) => {
+      const verdict = await this.ask<NliVerdict>(
+        buildNliPrompt(premise, hypothesis),
+        {
+          agents: [agentId],
+          complexity: 'simple',
+          domain: 'critical_thinking',
+          outputSchema: NLI_SCHEMA,
+          metadata: { analysis_type: 'contradiction_check' }
+        },
+        state
+      );
+      return verdict ? { ...verdict.data!, source: agentId } : null;
+    };
   }
 
   private generateNodeId(): string {
     return `node_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
+  private generateRunId(): string {
+    return `run_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
   // Public methods for monitoring
   getThoughtTreeStatistics(): {
     totalNodes: number;
@@ -511,6 +1068,49 @@ Expand and refine the reasoning.
     };
   }
 
+  getReasoningRun(runId: string): Promise<ThoughtTreeRun | null> {
+    return this.treeStore.load(runId);
+  }
+
+  listReasoningRuns(): Promise<ThoughtTreeRun[]> {
+    return this.treeStore.list();
+  }
+
+  /**
+   * A stored run's tree as Graphviz DOT, Mermaid or JSON, with the winning path, pruned
+   * branches and contradictions marked
+   */
+  async exportThoughtTree(runId: string, format: ThoughtTreeFormat = 'mermaid'): Promise<string> {
+    const run = await this.treeStore.load(runId);
+    if (!run) {
+      throw new Error(`Reasoning run ${runId} not found`);
+    }
+    return formatThoughtTree(run, format);
+  }
+
+  /**
+   * Judge a completed run's conclusion; the orchestrator tasks behind its winning path feed
+   * calibration with their raw confidences
+   */
+  async recordConfidenceOutcome(runId: string, correct: boolean): Promise<number> {
+    const run = await this.treeStore.load(runId);
+    if (!run?.bestPath) {
+      throw new Error(`Reasoning run ${runId} has no conclusion to judge`);
+    }
+
+    const taskIds = new Set(run.nodes
+      .filter(node => run.bestPath!.includes(node.id) && node.taskId)
+      .map(node => node.taskId!));
+    let judged = 0;
+    for (const taskId of taskIds) {
+      judged += await this.cognitiveOrchestrator.recordConfidenceOutcome(taskId, correct);
+    }
+    return judged;
+  }
+
+  /**
+   * Forget the in-memory tree; runs already saved to the tree store are kept
+   */
   clearReasoningTree(): void {
     this.thoughtTree.clear();
     this.reasoningPaths = [];
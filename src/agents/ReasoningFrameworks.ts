@@ -0,0 +1,241 @@
+/**
+ * Analytical Lenses for SovereigntyOS AI
+ * Named perspective packs that seed ReasoningEngine's initial thoughts, and critical-thinking
+ * frameworks whose criteria are scored against the chosen reasoning path
+ */
+
+import type { JsonSchema } from './StructuredOutput';
+
+export interface Perspective {
+  id: string; // e.g. 'fiscal_perspective'; underscores read as spaces in prompts
+  instruction: string;
+}
+
+export interface PerspectivePack {
+  name: string;
+  description?: string;
+  perspectives: Perspective[];
+}
+
+export interface CriticalThinkingCriterion {
+  id: string;
+  question: string; // What the reviewer scores, phrased as a question
+  weight?: number; // Relative weight in the framework score; default 1
+}
+
+export interface CriticalThinkingFramework {
+  name: string;
+  description?: string;
+  criteria: CriticalThinkingCriterion[];
+}
+
+export interface CriterionScore {
+  id: string;
+  question: string;
+  score?: number; // 0-1; unset when the analysis could not run
+  rationale?: string;
+}
+
+export interface CriticalThinkingAssessment {
+  framework: string;
+  criteria: CriterionScore[];
+  score?: number; // Weighted mean of the criterion scores
+}
+
+export const DEFAULT_PERSPECTIVE_PACKS: PerspectivePack[] = [
+  {
+    name: 'general',
+    description: 'Broad first look at any question',
+    perspectives: [
+      { id: 'analytical_perspective', instruction: 'Analyze this systematically with data and logic' },
+      { id: 'creative_perspective', instruction: 'Approach this with creative and innovative thinking' },
+      { id: 'skeptical_perspective', instruction: 'Question assumptions and look for potential flaws' },
+      { id: 'practical_perspective', instruction: 'Focus on practical implementation and real-world constraints' },
+      { id: 'ethical_perspective', instruction: 'Consider ethical implications and moral dimensions' }
+    ]
+  },
+  {
+    name: 'policy-analysis',
+    description: 'Public policy options and their effects',
+    perspectives: [
+      { id: 'stakeholder_perspective', instruction: 'Identify who gains and who loses, and how each group will respond' },
+      { id: 'fiscal_perspective', instruction: 'Estimate costs, funding sources and budget trade-offs' },
+      { id: 'legal_perspective', instruction: 'Check constitutional, statutory and regulatory constraints' },
+      { id: 'implementation_perspective', instruction: 'Assess state capacity, timelines and delivery risks' },
+      { id: 'equity_perspective', instruction: 'Consider distributional effects on poor and marginalised communities' }
+    ]
+  },
+  {
+    name: 'investment-memo',
+    description: 'Evaluating an investment or funding decision',
+    perspectives: [
+      { id: 'market_perspective', instruction: 'Size the market, its growth and the competitive landscape' },
+      { id: 'financial_perspective', instruction: 'Examine unit economics, cash flow and valuation' },
+      { id: 'risk_perspective', instruction: 'List the main risks, their likelihood and mitigations' },
+      { id: 'management_perspective', instruction: 'Judge the team, governance and execution record' },
+      { id: 'exit_perspective', instruction: 'Consider returns, exit routes and time horizon' }
+    ]
+  },
+  {
+    name: 'red-team',
+    description: 'Adversarial review of a plan or claim',
+    perspectives: [
+      { id: 'adversary_perspective', instruction: 'Act as a capable opponent and find the cheapest way to defeat this' },
+      { id: 'failure_mode_perspective', instruction: 'Assume this failed a year from now and explain why' },
+      { id: 'insider_perspective', instruction: 'Consider how insiders could misuse or subvert it' },
+      { id: 'second_order_perspective', instruction: 'Trace unintended and second-order consequences' }
+    ]
+  }
+];
+
+export const DEFAULT_CRITICAL_THINKING_FRAMEWORKS: CriticalThinkingFramework[] = [
+  {
+    name: 'general',
+    criteria: [
+      { id: 'assumptions', question: 'Are the key assumptions stated and reasonable?' },
+      { id: 'evidence', question: 'Is the evidence sufficient and relevant to the conclusion?' },
+      { id: 'alternatives', question: 'Were alternative explanations or options considered?' },
+      { id: 'logical_consistency', question: 'Does each step follow from the previous without contradiction?' },
+      { id: 'credibility', question: 'Are the sources credible?' },
+      { id: 'biases', question: 'Is the reasoning free of evident cognitive biases?' }
+    ]
+  }
+];
+
+/**
+ * Critical analysis answer: the three lists ReasoningEngine always reports, plus a score and
+ * rationale for each of the framework's criteria
+ */
+export function buildCriticalAnalysisSchema(framework: CriticalThinkingFramework): JsonSchema {
+  const stringList = (description: string): JsonSchema => ({ type: 'array', items: { type: 'string' }, description });
+
+  return {
+    type: 'object',
+    properties: {
+      assumptions: stringList('Key assumptions the reasoning makes'),
+      alternatives: stringList('Alternative perspectives or solutions'),
+      biases: stringList('Potential cognitive biases'),
+      criteria: {
+        type: 'object',
+        properties: Object.fromEntries(framework.criteria.map(criterion => [criterion.id, {
+          type: 'object',
+          description: criterion.question,
+          properties: {
+            score: { type: 'number', minimum: 0, maximum: 1 },
+            rationale: { type: 'string' }
+          },
+          required: ['score', 'rationale']
+        }])),
+        required: framework.criteria.map(criterion => criterion.id)
+      }
+    },
+    required: ['assumptions', 'alternatives', 'biases', 'criteria']
+  };
+}
+
+export function scoreFramework(
+  framework: CriticalThinkingFramework,
+  answers?: Record<string, { score: number; rationale: string }>
+): CriticalThinkingAssessment {
+  const criteria = framework.criteria.map(criterion => ({
+    id: criterion.id,
+    question: criterion.question,
+    score: answers?.[criterion.id]?.score,
+    rationale: answers?.[criterion.id]?.rationale
+  }));
+  const weight = (id: string) => framework.criteria.find(criterion => criterion.id === id)!.weight ?? 1;
+  const scored = criteria.filter(criterion => criterion.score !== undefined);
+  const totalWeight = scored.reduce((sum, criterion) => sum + weight(criterion.id), 0);
+
+  return {
+    framework: framework.name,
+    criteria,
+    score: totalWeight > 0
+      ? scored.reduce((sum, criterion) => sum + criterion.score! * weight(criterion.id), 0) / totalWeight
+      : undefined
+  };
+}
+
+function validatePerspectivePack(pack: PerspectivePack): void {
+  if (!pack.name || !Array.isArray(pack.perspectives) || pack.perspectives.length === 0) {
+    throw new Error(`Invalid perspective pack ${pack.name || '(unnamed)'}: needs a name and at least one perspective`);
+  }
+  const ids = pack.perspectives.map(perspective => perspective.id);
+  if (ids.some(id => !id) || new Set(ids).size !== ids.length) {
+    throw new Error(`Invalid perspective pack ${pack.name}: perspective ids must be present and unique`);
+  }
+}
+
+function validateFramework(framework: CriticalThinkingFramework): void {
+  if (!framework.name || !Array.isArray(framework.criteria) || framework.criteria.length === 0) {
+    throw new Error(`Invalid critical-thinking framework ${framework.name || '(unnamed)'}: needs a name and at least one criterion`);
+  }
+  const ids = framework.criteria.map(criterion => criterion.id);
+  if (ids.some(id => !id) || new Set(ids).size !== ids.length) {
+    throw new Error(`Invalid critical-thinking framework ${framework.name}: criterion ids must be present and unique`);
+  }
+  if (framework.criteria.some(criterion => criterion.weight !== undefined && !(criterion.weight >= 0))) {
+    throw new Error(`Invalid critical-thinking framework ${framework.name}: criterion weights must be non-negative`);
+  }
+}
+
+/**
+ * Named perspective packs and critical-thinking frameworks, seeded with the built-in ones
+ */
+export class ReasoningLensRegistry {
+  private packs: Map<string, PerspectivePack> = new Map();
+  private frameworks: Map<string, CriticalThinkingFramework> = new Map();
+
+  constructor(
+    packs: PerspectivePack[] = DEFAULT_PERSPECTIVE_PACKS,
+    frameworks: CriticalThinkingFramework[] = DEFAULT_CRITICAL_THINKING_FRAMEWORKS
+  ) {
+    packs.forEach(pack => this.registerPerspectivePack(pack));
+    frameworks.forEach(framework => this.registerFramework(framework));
+  }
+
+  registerPerspectivePack(pack: PerspectivePack): void {
+    validatePerspectivePack(pack);
+    this.packs.set(pack.name, pack);
+  }
+
+  registerFramework(framework: CriticalThinkingFramework): void {
+    validateFramework(framework);
+    this.frameworks.set(framework.name, framework);
+  }
+
+  /**
+   * A registered pack by name; inline packs are validated and returned as they are
+   */
+  getPerspectivePack(pack: string | PerspectivePack): PerspectivePack {
+    if (typeof pack !== 'string') {
+      validatePerspectivePack(pack);
+      return pack;
+    }
+    const registered = this.packs.get(pack);
+    if (!registered) {
+      throw new Error(`Unknown perspective pack "${pack}"; registered: ${Array.from(this.packs.keys()).join(', ')}`);
+    }
+    return registered;
+  }
+
+  getFramework(framework: string | CriticalThinkingFramework): CriticalThinkingFramework {
+    if (typeof framework !== 'string') {
+      validateFramework(framework);
+      return framework;
+    }
+    const registered = this.frameworks.get(framework);
+    if (!registered) {
+      throw new Error(`Unknown critical-thinking framework "${framework}"; registered: ${Array.from(this.frameworks.keys()).join(', ')}`);
+    }
+    return registered;
+  }
+
+  listPerspectivePacks(): PerspectivePack[] {
+    return Array.from(this.packs.values());
+  }
+
+  listFrameworks(): CriticalThinkingFramework[] {
+    return Array.from(this.frameworks.values());
+  }
+}
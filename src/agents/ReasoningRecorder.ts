@@ -0,0 +1,225 @@
+/**
+ * Reasoning Chain Recorder for SovereigntyOS AI
+ * Persists each query's context, prompts, raw agent responses and timing, and replays them offline
+ */
+
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { AgentCapability, QueryResult, ReasoningContext } from './CognitiveOrchestrator';
+import type { ModelProviderAdapter, ModelProviderRequest, ModelProviderResponse } from './ModelProviders';
+
+export interface RecordedCall {
+  agent: AgentCapability;
+  input: string;
+  prompt: string;
+  startedAt: string;
+  durationMs?: number;
+  response?: ModelProviderResponse;
+  error?: string;
+}
+
+export interface RecordedTask {
+  taskId: string;
+  query: string; // Guardrail-checked query
+  context: Omit<ReasoningContext, 'reasoningChain'>;
+  calls: RecordedCall[];
+  result?: Pick<QueryResult, 'response' | 'confidence' | 'cost' | 'reasoningChain'> & { agentsUsed: string[] };
+  error?: string;
+  startedAt: string;
+  durationMs: number;
+}
+
+export interface ReplayDivergence {
+  agent: string;
+  kind: 'prompt-changed' | 'unrecorded-call';
+  expected?: string;
+  actual: string;
+}
+
+interface ActiveRecording {
+  query: string;
+  startedAt: number;
+  calls: RecordedCall[];
+}
+
+/**
+ * The context minus its reasoning chain, which the recorded result already carries
+ */
+function recordedContext(context: ReasoningContext): RecordedTask['context'] {
+  const recorded: Partial<ReasoningContext> = { ...context };
+  delete recorded.reasoningChain;
+  return recorded as RecordedTask['context'];
+}
+
+/**
+ * Append-only JSONL log with one line per finished task.
+ * Secret-context tasks are never written, matching long-term memory.
+ * Failed writes are reported as 'write-failed' events.
+ */
+export class ReasoningRecorder extends EventEmitter {
+  private filePath: string;
+  private active: Map<string, ActiveRecording> = new Map();
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    super();
+    this.filePath = filePath;
+  }
+
+  begin(taskId: string, query: string): void {
+    this.active.set(taskId, { query, startedAt: Date.now(), calls: [] });
+  }
+
+  /**
+   * Track one provider call; the returned callbacks settle it
+   */
+  startCall(taskId: string, request: ModelProviderRequest): {
+    succeed: (response: ModelProviderResponse) => void;
+    fail: (error: unknown) => void;
+  } {
+    const started = Date.now();
+    const call: RecordedCall = {
+      agent: { ...request.agent },
+      input: request.query,
+      prompt: request.prompt,
+      startedAt: new Date(started).toISOString()
+    };
+    this.active.get(taskId)?.calls.push(call);
+
+    const settle = (outcome: Partial<RecordedCall>) => {
+      if (call.durationMs !== undefined) return;
+      Object.assign(call, outcome, { durationMs: Date.now() - started });
+    };
+    return {
+      succeed: response => settle({ response }),
+      fail: error => settle({ error: error instanceof Error ? error.message : String(error) })
+    };
+  }
+
+  /**
+   * Mark the agent's unsettled calls as failed, e.g. when the orchestrator gave up waiting
+   */
+  abandonCalls(taskId: string, agentId: string, error: unknown): void {
+    const message = error instanceof Error ? error.message : String(error);
+    for (const call of this.active.get(taskId)?.calls || []) {
+      if (call.agent.id === agentId && call.durationMs === undefined) {
+        call.error = message;
+        call.durationMs = Date.now() - Date.parse(call.startedAt);
+      }
+    }
+  }
+
+  finish(
+    context: ReasoningContext,
+    outcome: { query?: string; result?: QueryResult; error?: unknown }
+  ): RecordedTask | null {
+    const recording = this.active.get(context.taskId);
+    this.active.delete(context.taskId);
+    if (!recording || context.confidentialityLevel === 'secret') return null;
+
+    const task: RecordedTask = {
+      taskId: context.taskId,
+      query: outcome.query ?? recording.query,
+      context: recordedContext(context),
+      calls: recording.calls.map(call =>
+        call.durationMs === undefined ? { ...call, error: 'Call unfinished when the task ended' } : call
+      ),
+      result: outcome.result && {
+        response: outcome.result.response,
+        confidence: outcome.result.confidence,
+        cost: outcome.result.cost,
+        reasoningChain: outcome.result.reasoningChain,
+        agentsUsed: outcome.result.metadata.agentsUsed || []
+      },
+      error: outcome.error === undefined
+        ? undefined
+        : outcome.error instanceof Error ? outcome.error.message : String(outcome.error),
+      startedAt: new Date(recording.startedAt).toISOString(),
+      durationMs: Date.now() - recording.startedAt
+    };
+
+    const line = `${JSON.stringify(task)}\n`;
+    this.writes = this.writes
+      .then(async () => {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.appendFile(this.filePath, line, 'utf8');
+      })
+      .catch(error => { this.emit('write-failed', { taskId: task.taskId, error }); });
+    return task;
+  }
+
+  /**
+   * Resolves once every finished task has been written
+   */
+  flush(): Promise<void> {
+    return this.writes;
+  }
+
+  static async load(filePath: string): Promise<RecordedTask[]> {
+    const content = await fs.promises.readFile(filePath, 'utf8');
+    return content.split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+  }
+
+  static async find(filePath: string, taskId: string): Promise<RecordedTask> {
+    const task = (await ReasoningRecorder.load(filePath)).find(recorded => recorded.taskId === taskId);
+    if (!task) {
+      throw new Error(`Task ${taskId} not found in ${filePath}`);
+    }
+    return task;
+  }
+}
+
+/**
+ * Serves recorded responses in per-agent call order and notes where the new run's prompts differ
+ */
+export class ReplayResponses {
+  private queues: Map<string, RecordedCall[]> = new Map();
+  private divergences: ReplayDivergence[] = [];
+
+  constructor(task: RecordedTask) {
+    for (const call of task.calls) {
+      if (!this.queues.has(call.agent.id)) {
+        this.queues.set(call.agent.id, []);
+      }
+      this.queues.get(call.agent.id)!.push(call);
+    }
+  }
+
+  adapters(modelTypes: string[]): ModelProviderAdapter[] {
+    return modelTypes.map(modelType => ({
+      modelType,
+      complete: (request: ModelProviderRequest) => this.next(request)
+    }));
+  }
+
+  getDivergences(): ReplayDivergence[] {
+    return [...this.divergences];
+  }
+
+  unusedCalls(): number {
+    return Array.from(this.queues.values()).reduce((sum, queue) => sum + queue.length, 0);
+  }
+
+  private async next(request: ModelProviderRequest): Promise<ModelProviderResponse> {
+    const call = this.queues.get(request.agent.id)?.shift();
+    if (!call) {
+      this.divergences.push({ agent: request.agent.id, kind: 'unrecorded-call', actual: request.prompt });
+      throw new Error(`No recorded response left for ${request.agent.id}`);
+    }
+
+    if (call.prompt !== request.prompt) {
+      this.divergences.push({
+        agent: request.agent.id,
+        kind: 'prompt-changed',
+        expected: call.prompt,
+        actual: request.prompt
+      });
+    }
+
+    if (call.error !== undefined || !call.response) {
+      throw new Error(call.error || 'Recorded call has no response');
+    }
+    return call.response;
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * Response Synthesis for SovereigntyOS AI
+ * Merges agent outputs into one answer with per-claim step citations and explicit disagreements
+ */
+
+import type { AgentCapability, ReasoningContext, ReasoningStep } from './CognitiveOrchestrator';
+import type { ModelProviderAdapter } from './ModelProviders';
+import { findNegationConflicts, splitSentences } from './StepVerifier';
+
+/**
+ * Step numbers are indices into QueryResult.reasoningChain
+ */
+export interface SynthesisClaim {
+  text: string;
+  steps: number[];
+}
+
+export interface SynthesisDisagreement {
+  positions: Array<{ step: number; agent: string; statement: string }>;
+}
+
+export interface SynthesisResult {
+  response: string;
+  claims: SynthesisClaim[];
+  disagreements: SynthesisDisagreement[];
+  synthesizer: string; // Synthesizer agent id, or 'local'
+  cost: number;
+}
+
+export interface SynthesisConfig {
+  synthesizerAgentId?: string; // Agent that writes the synthesis; local merging when omitted
+}
+
+export interface CitedStep {
+  index: number;
+  step: ReasoningStep;
+}
+
+/**
+ * Claims with this much content-word overlap are treated as the same claim
+ */
+const DUPLICATE_CLAIM_SIMILARITY = 0.8;
+
+function claimWords(text: string): Set<string> {
+  return new Set((text.toLowerCase().match(/[a-z0-9]+/g) || []).filter(word => word.length > 2));
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  const shared = Array.from(a).filter(word => b.has(word)).length;
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Render claims with their citations, followed by any disagreements
+ */
+export function renderSynthesis(claims: SynthesisClaim[], disagreements: SynthesisDisagreement[]): string {
+  const lines = claims.map(claim => `${claim.text} [${claim.steps.join(', ')}]`);
+  let response = `Comprehensive Analysis:\n${lines.join('\n')}`;
+
+  if (disagreements.length > 0) {
+    const conflicts = disagreements.map(disagreement =>
+      `- ${disagreement.positions.map(p => `${p.agent} [${p.step}]: "${p.statement}"`).join(' vs ')}`
+    );
+    response += `\n\nDisagreements between agents:\n${conflicts.join('\n')}`;
+  }
+
+  return response;
+}
+
+/**
+ * Sentence-level merge: identical claims from different steps share one line,
+ * and sentences that contradict another step are reported as disagreements instead
+ */
+export function synthesizeLocally(steps: CitedStep[]): Omit<SynthesisResult, 'response' | 'synthesizer' | 'cost'> {
+  const answered = steps.filter(({ step }) => step.output.trim());
+  const disagreements: SynthesisDisagreement[] = [];
+  const disputed = new Set<string>();
+
+  for (let i = 0; i < answered.length; i++) {
+    for (let j = i + 1; j < answered.length; j++) {
+      const a = answered[i];
+      const b = answered[j];
+      for (const [statementA, statementB] of findNegationConflicts(a.step.output, b.step.output)) {
+        disagreements.push({
+          positions: [
+            { step: a.index, agent: a.step.agent, statement: statementA },
+            { step: b.index, agent: b.step.agent, statement: statementB }
+          ]
+        });
+        disputed.add(`${a.index}:${statementA}`).add(`${b.index}:${statementB}`);
+      }
+    }
+  }
+
+  const claims: Array<SynthesisClaim & { words: Set<string> }> = [];
+  for (const { index, step } of answered) {
+    for (const sentence of splitSentences(step.output)) {
+      if (disputed.has(`${index}:${sentence}`)) continue;
+
+      const words = claimWords(sentence);
+      const duplicate = claims.find(claim => jaccard(claim.words, words) >= DUPLICATE_CLAIM_SIMILARITY);
+      if (duplicate) {
+        if (!duplicate.steps.includes(index)) duplicate.steps.push(index);
+      } else {
+        claims.push({ text: sentence, steps: [index], words });
+      }
+    }
+  }
+
+  return { claims: claims.map(({ text, steps }) => ({ text, steps })), disagreements };
+}
+
+export function buildSynthesisPrompt(query: string, steps: CitedStep[]): string {
+  const numbered = steps.map(({ index, step }) => `[${index}] ${step.agent}:\n${step.output}`).join('\n\n');
+
+  return `Merge these agent answers into one response to the query.
+
+Query:
+${query}
+
+Agent answers:
+${numbered}
+
+Cite the answer numbers each claim comes from. Do not merge claims that contradict each other;
+list them as disagreements instead. Respond with JSON only:
+{"claims": [{"text": "...", "steps": [n]}], "disagreements": [{"positions": [{"step": n, "statement": "..."}]}]}`;
+}
+
+/**
+ * Parse the synthesizer's JSON; null unless every citation points at a provided step
+ */
+export function parseSynthesis(
+  output: string,
+  steps: CitedStep[]
+): Omit<SynthesisResult, 'response' | 'synthesizer' | 'cost'> | null {
+  const match = output.match(/\{[\s\S]*\}/);
+  if (!match) return null;
+
+  const agentsByIndex = new Map(steps.map(({ index, step }) => [index, step.agent]));
+  const isCitation = (n: unknown): n is number => typeof n === 'number' && agentsByIndex.has(n);
+
+  try {
+    const parsed = JSON.parse(match[0]);
+    if (!Array.isArray(parsed.claims) || parsed.claims.length === 0) return null;
+
+    const claims: SynthesisClaim[] = [];
+    for (const claim of parsed.claims) {
+      if (typeof claim?.text !== 'string' || !Array.isArray(claim.steps) ||
+          claim.steps.length === 0 || !claim.steps.every(isCitation)) {
+        return null;
+      }
+      claims.push({ text: claim.text, steps: claim.steps });
+    }
+
+    const disagreements: SynthesisDisagreement[] = [];
+    for (const disagreement of Array.isArray(parsed.disagreements) ? parsed.disagreements : []) {
+      const positions = Array.isArray(disagreement?.positions) ? disagreement.positions : [];
+      if (!positions.every((p: any) => isCitation(p?.step) && typeof p.statement === 'string')) return null;
+      disagreements.push({
+        positions: positions.map((p: any) => ({ step: p.step, agent: agentsByIndex.get(p.step)!, statement: p.statement }))
+      });
+    }
+
+    return { claims, disagreements };
+  } catch {
+    return null;
+  }
+}
+
+export class ResponseSynthesizer {
+  private synthesizer: { agent: AgentCapability; adapter: ModelProviderAdapter } | null;
+
+  constructor(synthesizer: { agent: AgentCapability; adapter: ModelProviderAdapter } | null = null) {
+    this.synthesizer = synthesizer;
+  }
+
+  async synthesize(query: string, steps: CitedStep[], context: ReasoningContext): Promise<SynthesisResult> {
+    let merged: Omit<SynthesisResult, 'response' | 'synthesizer' | 'cost'> | null = null;
+    let cost = 0;
+
+    // A single answer has nothing to merge, so skip the extra model call
+    if (this.synthesizer && steps.length > 1) {
+      const { agent, adapter } = this.synthesizer;
+      const response = await adapter.complete({ agent, query, prompt: buildSynthesisPrompt(query, steps), context });
+      merged = parseSynthesis(response.output, steps);
+      cost = agent.costPerQuery;
+    }
+
+    const synthesizer = merged ? this.synthesizer!.agent.id : 'local';
+    merged = merged || synthesizeLocally(steps);
+
+    return {
+      response: renderSynthesis(merged.claims, merged.disagreements),
+      ...merged,
+      synthesizer,
+      cost
+    };
+  }
+}
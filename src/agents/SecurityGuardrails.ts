@@ -0,0 +1,271 @@
+/**
+ * Policy-driven Security Guardrails for SovereigntyOS AI
+ * Detects PII and prompt injection in agent input and output, and audits every violation
+ */
+
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import type { ReasoningContext } from './CognitiveOrchestrator';
+
+export type ConfidentialityLevel = ReasoningContext['confidentialityLevel'];
+export type GuardrailStage = 'input' | 'output';
+export type GuardrailAction = 'allow' | 'flag' | 'redact' | 'block';
+
+export interface GuardrailRule {
+  id: string;
+  description?: string;
+  category: 'pii' | 'prompt-injection' | 'policy';
+  pattern?: string; // Regular expression source
+  flags?: string;
+  detector?: keyof typeof BUILT_IN_DETECTORS; // Heuristic validation applied to each regex match
+  stages: GuardrailStage[];
+  actions: Partial<Record<ConfidentialityLevel, GuardrailAction>>;
+}
+
+export interface GuardrailPolicy {
+  version: string;
+  rules: GuardrailRule[];
+}
+
+export interface GuardrailAuditEvent {
+  id: string;
+  timestamp: Date;
+  taskId: string;
+  stage: GuardrailStage;
+  ruleId: string;
+  category: GuardrailRule['category'];
+  action: GuardrailAction;
+  confidentialityLevel: ConfidentialityLevel;
+  matchCount: number;
+  policyVersion: string;
+}
+
+export interface GuardrailResult {
+  text: string;
+  blocked: boolean;
+  violations: GuardrailAuditEvent[];
+}
+
+export class SecurityViolationError extends Error {
+  readonly violations: GuardrailAuditEvent[];
+
+  constructor(stage: GuardrailStage, violations: GuardrailAuditEvent[]) {
+    const blocking = violations.filter(v => v.action === 'block').map(v => v.ruleId);
+    super(`Security violation: ${stage} blocked by ${blocking.join(', ')}`);
+    this.name = 'SecurityViolationError';
+    this.violations = violations;
+  }
+}
+
+/**
+ * Heuristic checks that reduce regex false positives
+ */
+const BUILT_IN_DETECTORS = {
+  // 13-digit SA ID: YYMMDD SSSS C A Z with a Luhn check digit
+  'sa-id-number': (match: string): boolean => {
+    const digits = match.replace(/\D/g, '');
+    if (digits.length !== 13) return false;
+
+    let sum = 0;
+    for (let i = 0; i < 13; i++) {
+      let digit = Number(digits[12 - i]);
+      if (i % 2 === 1) {
+        digit *= 2;
+        if (digit > 9) digit -= 9;
+      }
+      sum += digit;
+    }
+    return sum % 10 === 0;
+  }
+};
+
+const PII_ACTIONS: GuardrailRule['actions'] = {
+  public: 'redact',
+  internal: 'redact',
+  confidential: 'redact',
+  secret: 'block'
+};
+
+const INJECTION_ACTIONS: GuardrailRule['actions'] = {
+  public: 'flag',
+  internal: 'flag',
+  confidential: 'block',
+  secret: 'block'
+};
+
+export const DEFAULT_GUARDRAIL_POLICY: GuardrailPolicy = {
+  version: '1.0.0',
+  rules: [
+    {
+      id: 'sa-id-number',
+      description: 'South African ID number',
+      category: 'pii',
+      pattern: '\\b\\d{2}(?:0[1-9]|1[0-2])(?:0[1-9]|[12]\\d|3[01])\\d{4}[01]\\d{2}\\b',
+      detector: 'sa-id-number',
+      stages: ['input', 'output'],
+      actions: PII_ACTIONS
+    },
+    {
+      id: 'sa-phone-number',
+      description: 'South African mobile or landline number',
+      category: 'pii',
+      pattern: '(?:\\+27|\\b0)[\\s-]?[1-9]\\d[\\s-]?\\d{3}[\\s-]?\\d{4}\\b',
+      stages: ['input', 'output'],
+      actions: PII_ACTIONS
+    },
+    {
+      id: 'email-address',
+      description: 'Email address',
+      category: 'pii',
+      pattern: '\\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\\.[A-Za-z]{2,}\\b',
+      stages: ['input', 'output'],
+      actions: PII_ACTIONS
+    },
+    {
+      id: 'bank-account-number',
+      description: 'Bank account or branch code following an account keyword',
+      category: 'pii',
+      pattern: '\\b(?:account|acc|a/c|branch code)(?:\\s*(?:no\\.?|number|#))?[\\s:]*\\d{6,12}\\b',
+      flags: 'gi',
+      stages: ['input', 'output'],
+      actions: PII_ACTIONS
+    },
+    {
+      id: 'prompt-injection-override',
+      description: 'Attempts to override or reveal system instructions',
+      category: 'prompt-injection',
+      pattern: '\\b(?:ignore|disregard|forget)\\s+(?:all\\s+)?(?:the\\s+)?(?:previous|prior|above|earlier|system)\\s+(?:instructions|prompts?|rules)' +
+        '|\\breveal\\s+(?:your|the)\\s+(?:system\\s+)?prompt|\\byou\\s+are\\s+now\\s+(?:in\\s+)?(?:developer|dan|jailbreak)\\b',
+      flags: 'gi',
+      stages: ['input'],
+      actions: INJECTION_ACTIONS
+    },
+    {
+      id: 'secret-in-public-context',
+      description: 'Secret queries must not reference public disclosure',
+      category: 'policy',
+      pattern: '\\bpublic\\b',
+      stages: ['input'],
+      actions: { secret: 'block' }
+    }
+  ]
+};
+
+/**
+ * Load a guardrail policy from a JSON file
+ */
+export function loadGuardrailPolicy(filePath: string): GuardrailPolicy {
+  const policy = JSON.parse(fs.readFileSync(filePath, 'utf8')) as GuardrailPolicy;
+
+  if (!policy.version || !Array.isArray(policy.rules)) {
+    throw new Error(`Invalid guardrail policy in ${filePath}: version and rules are required`);
+  }
+  for (const rule of policy.rules) {
+    if (!rule.id || !rule.pattern || !Array.isArray(rule.stages) || !rule.actions) {
+      throw new Error(`Invalid guardrail rule ${rule.id || '(unnamed)'} in ${filePath}`);
+    }
+    if (rule.detector && !(rule.detector in BUILT_IN_DETECTORS)) {
+      throw new Error(`Unknown guardrail detector ${rule.detector} in rule ${rule.id}`);
+    }
+  }
+
+  return policy;
+}
+
+export class SecurityGuardrails extends EventEmitter {
+  private policy: GuardrailPolicy;
+  private auditLog: GuardrailAuditEvent[] = [];
+  private maxAuditLogSize: number;
+
+  constructor(policy: GuardrailPolicy | string = DEFAULT_GUARDRAIL_POLICY, maxAuditLogSize: number = 10000) {
+    super();
+    this.policy = typeof policy === 'string' ? loadGuardrailPolicy(policy) : policy;
+    this.maxAuditLogSize = maxAuditLogSize;
+  }
+
+  /**
+   * Check a query before it reaches any agent; returns the redacted query
+   */
+  async validateQuery(query: string, context: ReasoningContext): Promise<string> {
+    return this.enforce(query, context, 'input');
+  }
+
+  /**
+   * Check agent output before it is returned, cached or passed on
+   */
+  async validateResponse(response: string, context: ReasoningContext): Promise<string> {
+    return this.enforce(response, context, 'output');
+  }
+
+  inspect(text: string, context: ReasoningContext, stage: GuardrailStage): GuardrailResult {
+    const violations: GuardrailAuditEvent[] = [];
+    let result = text;
+
+    for (const rule of this.policy.rules) {
+      const action = rule.actions[context.confidentialityLevel] || 'allow';
+      if (action === 'allow' || !rule.stages.includes(stage)) continue;
+
+      const matches = this.findMatches(rule, result);
+      if (matches.length === 0) continue;
+
+      if (action === 'redact') {
+        for (const match of matches) {
+          result = result.split(match).join(`[REDACTED:${rule.id}]`);
+        }
+      }
+
+      violations.push({
+        id: uuidv4(),
+        timestamp: new Date(),
+        taskId: context.taskId,
+        stage,
+        ruleId: rule.id,
+        category: rule.category,
+        action,
+        confidentialityLevel: context.confidentialityLevel,
+        matchCount: matches.length,
+        policyVersion: this.policy.version
+      });
+    }
+
+    return {
+      text: result,
+      blocked: violations.some(v => v.action === 'block'),
+      violations
+    };
+  }
+
+  getAuditLog(): GuardrailAuditEvent[] {
+    return [...this.auditLog];
+  }
+
+  getPolicy(): GuardrailPolicy {
+    return this.policy;
+  }
+
+  private enforce(text: string, context: ReasoningContext, stage: GuardrailStage): string {
+    const result = this.inspect(text, context, stage);
+
+    for (const violation of result.violations) {
+      this.auditLog.push(violation);
+      this.emit('audit', violation);
+    }
+    if (this.auditLog.length > this.maxAuditLogSize) {
+      this.auditLog.splice(0, this.auditLog.length - this.maxAuditLogSize);
+    }
+
+    if (result.blocked) {
+      throw new SecurityViolationError(stage, result.violations);
+    }
+    return result.text;
+  }
+
+  private findMatches(rule: GuardrailRule, text: string): string[] {
+    const flags = rule.flags ? (rule.flags.includes('g') ? rule.flags : `${rule.flags}g`) : 'g';
+    const matches = text.match(new RegExp(rule.pattern!, flags)) || [];
+    const detector = rule.detector ? BUILT_IN_DETECTORS[rule.detector] : null;
+
+    return Array.from(new Set(detector ? matches.filter(detector) : matches));
+  }
+}
@@ -37,7 +37,7 @@ interface CacheStatistics {
   evictionCount: number;
 }
 
-interface EmbeddingService {
+export interface EmbeddingService {
   generateEmbedding(text: string): Promise<number[]>;
   calculateSimilarity(embedding1: number[], embedding2: number[]): number;
 }
@@ -579,4 +579,32 @@ export class SimpleEmbeddingService implements EmbeddingService {
     const magnitude = Math.sqrt(norm1) * Math.sqrt(norm2);
     return magnitude === 0 ? 0 : dotProduct / magnitude;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Bag-of-words embedding using feature hashing over word unigrams and bigrams.
+ * Unlike SimpleEmbeddingService, texts that share vocabulary score as similar.
+ */
+export class TokenHashEmbeddingService extends SimpleEmbeddingService {
+  private dimensions: number;
+
+  constructor(dimensions: number = 384) {
+    super();
+    this.dimensions = dimensions;
+  }
+
+  async generateEmbedding(text: string): Promise<number[]> {
+    const embedding = new Array(this.dimensions).fill(0);
+    const tokens = text.toLowerCase().match(/[a-z0-9]+/g) || [];
+    const features = [...tokens, ...tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`)];
+
+    for (const feature of features) {
+      const hash = crypto.createHash('md5').update(feature).digest();
+      const index = hash.readUInt32BE(0) % this.dimensions;
+      embedding[index] += hash[4] & 1 ? 1 : -1;
+    }
+
+    const norm = Math.sqrt(embedding.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? embedding : embedding.map(value => value / norm);
+  }
+}
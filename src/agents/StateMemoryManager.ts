@@ -0,0 +1,227 @@
+/**
+ * Long-term Memory for SovereigntyOS AI
+ * Persists past analyses and recalls them by domain and embedding similarity
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import type { ReasoningContext, ReasoningStep } from './CognitiveOrchestrator';
+import { EmbeddingService, TokenHashEmbeddingService } from './SemanticCacheManager';
+
+type ConfidentialityLevel = ReasoningContext['confidentialityLevel'];
+
+const CONFIDENTIALITY_ORDER: ConfidentialityLevel[] = ['public', 'internal', 'confidential', 'secret'];
+
+export interface MemoryRecord {
+  id: string;
+  query: string;
+  response: string;
+  domain: string;
+  tenantId?: string;
+  confidentialityLevel?: ConfidentialityLevel; // Records written without one are treated as confidential
+  reasoningChain: ReasoningStep[];
+  embedding: number[];
+  timestamp: Date;
+}
+
+export interface MemorySearchOptions {
+  domain?: string;
+  tenantId?: string;
+  maxConfidentiality?: ConfidentialityLevel; // Only records at or below this level match
+  limit?: number;
+  minSimilarity?: number;
+}
+
+export interface MemoryMatch {
+  record: MemoryRecord;
+  similarity: number;
+}
+
+export interface MemoryStore {
+  add(record: MemoryRecord): Promise<void>;
+  getByDomain(domain: string): Promise<MemoryRecord[]>;
+  search(embedding: number[], options?: MemorySearchOptions): Promise<MemoryMatch[]>;
+  size(): Promise<number>;
+}
+
+/**
+ * Volatile store; the default when no memory path is configured
+ */
+export class InMemoryMemoryStore implements MemoryStore {
+  protected records: Map<string, MemoryRecord> = new Map();
+  protected domainIndex: Map<string, Set<string>> = new Map();
+  private embeddingService: EmbeddingService;
+
+  constructor(embeddingService: EmbeddingService = new TokenHashEmbeddingService()) {
+    this.embeddingService = embeddingService;
+  }
+
+  async add(record: MemoryRecord): Promise<void> {
+    this.index(record);
+  }
+
+  async getByDomain(domain: string): Promise<MemoryRecord[]> {
+    const ids = this.domainIndex.get(domain) || new Set<string>();
+    return Array.from(ids).map(id => this.records.get(id)!);
+  }
+
+  async search(embedding: number[], options: MemorySearchOptions = {}): Promise<MemoryMatch[]> {
+    const candidates = options.domain
+      ? await this.getByDomain(options.domain)
+      : Array.from(this.records.values());
+
+    return candidates
+      .filter(record => record.tenantId === options.tenantId)
+      .filter(record => !options.maxConfidentiality ||
+        CONFIDENTIALITY_ORDER.indexOf(record.confidentialityLevel || 'confidential') <=
+          CONFIDENTIALITY_ORDER.indexOf(options.maxConfidentiality))
+      .map(record => ({
+        record,
+        similarity: this.embeddingService.calculateSimilarity(embedding, record.embedding)
+      }))
+      .filter(match => match.similarity >= (options.minSimilarity ?? 0.3))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, options.limit || 3);
+  }
+
+  async size(): Promise<number> {
+    return this.records.size;
+  }
+
+  protected index(record: MemoryRecord): void {
+    this.records.set(record.id, record);
+    if (!this.domainIndex.has(record.domain)) {
+      this.domainIndex.set(record.domain, new Set());
+    }
+    this.domainIndex.get(record.domain)!.add(record.id);
+  }
+}
+
+/**
+ * Append-only JSONL store; records are loaded into the in-memory index on first use
+ */
+export class FileMemoryStore extends InMemoryMemoryStore {
+  private filePath: string;
+  private loaded: Promise<void> | null = null;
+
+  constructor(filePath: string, embeddingService?: EmbeddingService) {
+    super(embeddingService);
+    this.filePath = filePath;
+  }
+
+  async add(record: MemoryRecord): Promise<void> {
+    await this.load();
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.appendFile(this.filePath, `${JSON.stringify(record)}\n`, 'utf8');
+    this.index(record);
+  }
+
+  async getByDomain(domain: string): Promise<MemoryRecord[]> {
+    await this.load();
+    return super.getByDomain(domain);
+  }
+
+  async search(embedding: number[], options?: MemorySearchOptions): Promise<MemoryMatch[]> {
+    await this.load();
+    return super.search(embedding, options);
+  }
+
+  async size(): Promise<number> {
+    await this.load();
+    return super.size();
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.readRecords();
+    }
+    return this.loaded;
+  }
+
+  private async readRecords(): Promise<void> {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      const record = JSON.parse(line);
+      this.index({
+        ...record,
+        timestamp: new Date(record.timestamp),
+        reasoningChain: record.reasoningChain.map((step: ReasoningStep) => ({
+          ...step,
+          timestamp: new Date(step.timestamp)
+        }))
+      });
+    }
+  }
+}
+
+export class StateMemoryManager {
+  private store: MemoryStore;
+  private embeddingService: EmbeddingService;
+  private recallLimit: number;
+
+  constructor(
+    options: {
+      store?: MemoryStore;
+      path?: string;
+      embeddingService?: EmbeddingService;
+      recallLimit?: number;
+    } = {}
+  ) {
+    this.embeddingService = options.embeddingService || new TokenHashEmbeddingService();
+    this.store = options.store || (options.path
+      ? new FileMemoryStore(options.path, this.embeddingService)
+      : new InMemoryMemoryStore(this.embeddingService));
+    this.recallLimit = options.recallLimit || 3;
+  }
+
+  async updateLongTermMemory(
+    query: string,
+    response: string,
+    reasoningChain: ReasoningStep[],
+    context: ReasoningContext
+  ): Promise<void> {
+    // Secret analyses are never written to disk
+    if (context.confidentialityLevel === 'secret') return;
+
+    await this.store.add({
+      id: uuidv4(),
+      query,
+      response,
+      domain: context.domain,
+      tenantId: context.tenantId,
+      confidentialityLevel: context.confidentialityLevel,
+      reasoningChain,
+      embedding: await this.embeddingService.generateEmbedding(query),
+      timestamp: new Date()
+    });
+  }
+
+  /**
+   * Recall earlier analyses in the same domain that resemble the query and are no more
+   * confidential than the current context
+   */
+  async retrieveRelevantMemories(query: string, context: ReasoningContext): Promise<MemoryRecord[]> {
+    const embedding = await this.embeddingService.generateEmbedding(query);
+    const matches = await this.store.search(embedding, {
+      domain: context.domain,
+      tenantId: context.tenantId,
+      maxConfidentiality: context.confidentialityLevel,
+      limit: this.recallLimit
+    });
+
+    return matches.map(match => match.record);
+  }
+
+  getStore(): MemoryStore {
+    return this.store;
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * Reasoning Step Verification for SovereigntyOS AI
+ * Checks agent output for factual consistency, self-contradiction and relevance to the query
+ */
+
+import type { AgentCapability, ReasoningContext, ReasoningStep } from './CognitiveOrchestrator';
+import type { ModelProviderAdapter } from './ModelProviders';
+
+export interface VerificationChecks {
+  factualConsistency: boolean; // Output does not contradict the step input
+  selfConsistent: boolean; // Output does not contradict itself
+  answersQuery: boolean;
+}
+
+export interface VerificationResult {
+  passed: boolean;
+  checks: VerificationChecks;
+  issues: string[];
+  verifier: string; // Verifier agent id, or 'heuristic'
+  cost: number;
+}
+
+export interface VerificationConfig {
+  verifierAgentId?: string; // Agent that judges each step; local heuristics only when omitted
+  reask?: boolean; // Re-ask a failing agent once with the verifier's issues
+  failurePenalty?: number; // Fraction of confidence removed from failing steps
+}
+
+const STOPWORDS = new Set([
+  'about', 'after', 'also', 'been', 'from', 'have', 'into', 'more', 'should', 'than', 'that',
+  'their', 'them', 'then', 'there', 'these', 'they', 'this', 'what', 'when', 'where', 'which',
+  'while', 'will', 'with', 'would', 'your'
+]);
+
+function contentWords(text: string): Set<string> {
+  return new Set(
+    (text.toLowerCase().match(/[a-z0-9]+/g) || []).filter(word => word.length > 3 && !STOPWORDS.has(word))
+  );
+}
+
+export function splitSentences(text: string): string[] {
+  return text.split(/(?<=[.!?])\s+|\n+/).map(sentence => sentence.trim()).filter(Boolean);
+}
+
+/**
+ * Drop negations, auxiliaries and plural/verb endings so that
+ * "X does not apply to Y" and "X applies to Y" normalise to the same claim
+ */
+export function normaliseClaim(sentence: string): { claim: string; negated: boolean } {
+  const lower = sentence.toLowerCase().replace(/[.!?]+$/, '');
+  const negated = /\b(not|never|no)\b|n't\b/.test(lower);
+  const claim = lower
+    .replace(/n't\b/g, '')
+    .split(/\s+/)
+    .filter(word => word && !['not', 'never', 'no', 'do', 'does', 'did'].includes(word))
+    .map(word => word.length > 3 ? word.replace(/ies$/, 'y').replace(/(?<!s)s$/, '') : word)
+    .join(' ');
+  return { claim, negated };
+}
+
+/**
+ * Pairs of sentences that assert and deny the same claim
+ */
+export function findNegationConflicts(a: string, b: string): Array<[string, string]> {
+  const claimsB = splitSentences(b).map(sentence => ({ sentence, ...normaliseClaim(sentence) }));
+  const conflicts: Array<[string, string]> = [];
+
+  for (const sentence of splitSentences(a)) {
+    const { claim, negated } = normaliseClaim(sentence);
+    const conflict = claimsB.find(other => other.claim === claim && other.negated !== negated);
+    if (conflict && claim.split(' ').length >= 3) {
+      conflicts.push([sentence, conflict.sentence]);
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Local checks used when no verifier agent is configured or its verdict can't be parsed
+ */
+export function heuristicVerification(query: string, step: ReasoningStep): VerificationResult {
+  const issues: string[] = [];
+
+  const queryWords = contentWords(query);
+  const outputWords = contentWords(step.output);
+  const overlap = Array.from(queryWords).filter(word => outputWords.has(word)).length;
+  const answersQuery = step.output.trim().length > 0 && (queryWords.size === 0 || overlap / queryWords.size >= 0.2);
+  if (!answersQuery) {
+    issues.push('Output does not address the query');
+  }
+
+  const selfConflicts = findNegationConflicts(step.output, step.output);
+  if (selfConflicts.length > 0) {
+    issues.push(`Output contradicts itself: "${selfConflicts[0][0]}" vs "${selfConflicts[0][1]}"`);
+  }
+
+  const inputConflicts = step.input === step.output ? [] : findNegationConflicts(step.output, step.input);
+  if (inputConflicts.length > 0) {
+    issues.push(`Output contradicts its input: "${inputConflicts[0][0]}" vs "${inputConflicts[0][1]}"`);
+  }
+
+  const checks = {
+    factualConsistency: inputConflicts.length === 0,
+    selfConsistent: selfConflicts.length === 0,
+    answersQuery
+  };
+
+  return { passed: issues.length === 0, checks, issues, verifier: 'heuristic', cost: 0 };
+}
+
+export function buildVerificationPrompt(query: string, step: ReasoningStep): string {
+  return `You are verifying another agent's reasoning step.
+
+Original query:
+${query}
+
+Step input:
+${step.input}
+
+Step output (from ${step.agent}):
+${step.output}
+
+Check whether the output is factually consistent with the input, free of self-contradiction,
+and actually answers the query. Respond with JSON only:
+{"factualConsistency": true|false, "selfConsistent": true|false, "answersQuery": true|false, "issues": ["..."]}`;
+}
+
+/**
+ * Parse the verifier's JSON verdict; null when the output holds no usable verdict
+ */
+export function parseVerificationVerdict(output: string): { checks: VerificationChecks; issues: string[] } | null {
+  const match = output.match(/\{[\s\S]*\}/);
+  if (!match) return null;
+
+  try {
+    const verdict = JSON.parse(match[0]);
+    const fields: Array<keyof VerificationChecks> = ['factualConsistency', 'selfConsistent', 'answersQuery'];
+    if (!fields.every(field => typeof verdict[field] === 'boolean')) return null;
+
+    return {
+      checks: {
+        factualConsistency: verdict.factualConsistency,
+        selfConsistent: verdict.selfConsistent,
+        answersQuery: verdict.answersQuery
+      },
+      issues: Array.isArray(verdict.issues) ? verdict.issues.map(String) : []
+    };
+  } catch {
+    return null;
+  }
+}
+
+export class StepVerifier {
+  private verifier: { agent: AgentCapability; adapter: ModelProviderAdapter } | null;
+
+  constructor(verifier: { agent: AgentCapability; adapter: ModelProviderAdapter } | null = null) {
+    this.verifier = verifier;
+  }
+
+  async verify(query: string, step: ReasoningStep, context: ReasoningContext): Promise<VerificationResult> {
+    if (!this.verifier) {
+      return heuristicVerification(query, step);
+    }
+
+    const { agent, adapter } = this.verifier;
+    const response = await adapter.complete({
+      agent,
+      query,
+      prompt: buildVerificationPrompt(query, step),
+      context
+    });
+    const verdict = parseVerificationVerdict(response.output);
+    if (!verdict) {
+      return { ...heuristicVerification(query, step), cost: agent.costPerQuery };
+    }
+
+    const failedChecks = (Object.keys(verdict.checks) as Array<keyof VerificationChecks>)
+      .filter(check => !verdict.checks[check]);
+
+    return {
+      passed: failedChecks.length === 0,
+      checks: verdict.checks,
+      issues: verdict.issues.length > 0 || failedChecks.length === 0
+        ? verdict.issues
+        : failedChecks.map(check => `Failed ${check} check`),
+      verifier: agent.id,
+      cost: agent.costPerQuery
+    };
+  }
+}
@@ -0,0 +1,376 @@
+/**
+ * Structured Output for SovereigntyOS AI
+ * Validates JSON agent responses against a JSON Schema, repairing or re-asking when they don't conform
+ */
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+/**
+ * The JSON Schema subset agents are held to
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  enum?: unknown[];
+  const?: unknown;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  anyOf?: JsonSchema[];
+  default?: unknown;
+}
+
+export interface StructuredOutputConfig {
+  maxReasks?: number; // Re-asks after an unrepairable response; default 1
+}
+
+export interface StructuredParseResult<T = unknown> {
+  valid: boolean;
+  value?: T;
+  repaired: boolean; // The JSON had to be fixed up or coerced to conform
+  errors: string[];
+}
+
+export class StructuredOutputError extends Error {
+  readonly agent: string;
+  readonly output: string;
+  readonly errors: string[];
+
+  constructor(agent: string, output: string, errors: string[], attempts: number) {
+    super(`${agent} did not return schema-conforming JSON after ${attempts} attempt(s): ${errors.join('; ')}`);
+    this.name = 'StructuredOutputError';
+    this.agent = agent;
+    this.output = output;
+    this.errors = errors;
+  }
+}
+
+function typeOf(value: unknown): JsonSchemaType | 'undefined' {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  if (typeof value === 'string' || typeof value === 'boolean' || typeof value === 'object') {
+    return typeof value as JsonSchemaType;
+  }
+  return 'undefined';
+}
+
+function allowedTypes(schema: JsonSchema): JsonSchemaType[] {
+  if (!schema.type) return [];
+  return Array.isArray(schema.type) ? schema.type : [schema.type];
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * Every way the value breaks the schema, as `$.path: problem` strings; empty when it conforms
+ */
+export function validateAgainstSchema(value: unknown, schema: JsonSchema, path: string = '$'): string[] {
+  if (schema.anyOf) {
+    const branches = schema.anyOf.map(branch => validateAgainstSchema(value, branch, path));
+    if (!branches.some(errors => errors.length === 0)) {
+      return [`${path}: does not match any allowed schema`];
+    }
+  }
+
+  const types = allowedTypes(schema);
+  if (types.length > 0 && !types.some(type => matchesType(value, type))) {
+    return [`${path}: expected ${types.join(' or ')}, got ${typeOf(value)}`];
+  }
+  if ('const' in schema && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+    return [`${path}: must equal ${JSON.stringify(schema.const)}`];
+  }
+  if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    return [`${path}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`];
+  }
+
+  const errors: string[] = [];
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path}: must be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path}: must be <= ${schema.maximum}`);
+  }
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path}: must match /${schema.pattern}/`);
+    }
+  }
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, i) => errors.push(...validateAgainstSchema(item, schema.items!, `${path}[${i}]`)));
+    }
+  }
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (!(key in record)) errors.push(`${path}.${key}: is required`);
+    }
+    for (const [key, item] of Object.entries(record)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        errors.push(...validateAgainstSchema(item, propertySchema, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not allowed`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateAgainstSchema(item, schema.additionalProperties, `${path}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * The JSON span starting at `start`; unterminated JSON (e.g. a truncated response) runs to the end
+ */
+function balancedJsonFrom(text: string, start: number): string {
+  const stack: string[] = [];
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack.push(char);
+    } else if (char === '}' || char === ']') {
+      stack.pop();
+      if (stack.length === 0) return text.slice(start, i + 1);
+    }
+  }
+  return text.slice(start).trim();
+}
+
+/**
+ * The JSON in a response, ignoring code fences and surrounding prose. Prefers the first span
+ * that parses; otherwise returns the first candidate so it can be repaired.
+ */
+export function extractJsonText(output: string): string | null {
+  const fenced = output.match(/```(?:json)?\s*([\s\S]*?)(?:```|$)/i);
+  const text = fenced ? fenced[1] : output;
+  let fallback: string | null = null;
+
+  for (let start = text.search(/[{[]/); start !== -1;) {
+    const candidate = balancedJsonFrom(text, start);
+    try {
+      JSON.parse(candidate);
+      return candidate;
+    } catch {
+      fallback = fallback ?? candidate;
+    }
+    const next = text.slice(start + 1).search(/[{[]/);
+    start = next === -1 ? -1 : start + 1 + next;
+  }
+  return fallback;
+}
+
+/**
+ * Fix the syntax slips models commonly make: unquoted keys, trailing commas, missing closing
+ * brackets, and smart or single quotes (only swapped when the text has no straight double
+ * quotes, so apostrophes inside strings survive)
+ */
+export function repairJson(text: string): string {
+  let source = text;
+  if (!source.includes('"')) {
+    source = source.replace(/[\u201c\u201d]/g, '"');
+  }
+  if (!source.includes('"')) {
+    source = source.replace(/'((?:[^'\\\n]|\\.)*)'/g, (_, inner: string) => JSON.stringify(inner.replace(/\\'/g, '\'')));
+  }
+
+  let repaired = '';
+  const closers: string[] = [];
+  let inString = false;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inString) {
+      repaired += char;
+      if (char === '\\') {
+        repaired += source[++i] ?? '';
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      closers.push(char === '{' ? '}' : ']');
+    } else if (char === '}' || char === ']') {
+      closers.pop();
+    } else if (char === ',' && /^\s*([}\]]|$)/.test(source.slice(i + 1))) {
+      continue; // Trailing comma
+    } else if (/[A-Za-z_$]/.test(char) && /[{,]\s*$/.test(repaired)) {
+      const key = source.slice(i).match(/^([A-Za-z_$][\w$-]*)\s*:/);
+      if (key) {
+        repaired += `"${key[1]}":`;
+        i += key[0].length - 1;
+        continue;
+      }
+    }
+    repaired += char;
+  }
+
+  if (inString) repaired += '"';
+  return repaired + closers.reverse().join('');
+}
+
+/**
+ * Coerce near-misses to the schema: numeric and boolean strings, lone values where an array
+ * is expected, and properties the schema forbids. Anything else is left for validation to report.
+ */
+export function coerceToSchema(value: unknown, schema: JsonSchema): unknown {
+  const types = allowedTypes(schema);
+  if (types.length > 0 && !types.some(type => matchesType(value, type))) {
+    if (types.includes('array') && value !== undefined) {
+      return coerceToSchema([value], schema);
+    }
+    if (typeof value === 'string') {
+      const trimmed = value.trim();
+      if ((types.includes('number') || types.includes('integer')) && trimmed !== '' && !isNaN(Number(trimmed))) {
+        return Number(trimmed);
+      }
+      if (types.includes('boolean') && /^(true|false)$/i.test(trimmed)) {
+        return trimmed.toLowerCase() === 'true';
+      }
+    }
+    if (types.includes('string') && (typeof value === 'number' || typeof value === 'boolean')) {
+      return String(value);
+    }
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    return schema.items ? value.map(item => coerceToSchema(item, schema.items!)) : value;
+  }
+  if (typeOf(value) === 'object') {
+    const coerced: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        coerced[key] = coerceToSchema(item, propertySchema);
+      } else if (schema.additionalProperties !== false) {
+        coerced[key] = item;
+      }
+    }
+    for (const key of schema.required || []) {
+      const fallback = schema.properties?.[key]?.default;
+      if (!(key in coerced) && fallback !== undefined) coerced[key] = fallback;
+    }
+    return coerced;
+  }
+  return value;
+}
+
+/**
+ * Extract, parse and validate a JSON response, repairing it locally where possible
+ */
+export function parseStructuredOutput<T = unknown>(output: string, schema: JsonSchema): StructuredParseResult<T> {
+  const text = extractJsonText(output);
+  if (text === null) {
+    return { valid: false, repaired: false, errors: ['Response contains no JSON'] };
+  }
+
+  let parsed: unknown;
+  let repaired = false;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    try {
+      parsed = JSON.parse(repairJson(text));
+      repaired = true;
+    } catch {
+      return { valid: false, repaired: false, errors: [`Invalid JSON: ${(error as Error).message}`] };
+    }
+  }
+
+  const errors = validateAgainstSchema(parsed, schema);
+  if (errors.length === 0) {
+    return { valid: true, value: parsed as T, repaired, errors: [] };
+  }
+
+  const coerced = coerceToSchema(parsed, schema);
+  if (validateAgainstSchema(coerced, schema).length === 0) {
+    return { valid: true, value: coerced as T, repaired: true, errors: [] };
+  }
+  return { valid: false, repaired, errors };
+}
+
+/**
+ * Appended to agent prompts when a schema is requested
+ */
+export function buildSchemaInstructions(schema: JsonSchema): string {
+  return `Respond with JSON only, without prose or code fences, conforming to this JSON Schema:
+${JSON.stringify(schema, null, 2)}`;
+}
+
+export function buildSchemaReaskPrompt(input: string, output: string, errors: string[]): string {
+  return `${input}
+
+Your previous answer did not conform to the required JSON Schema:
+${output}
+
+Problems:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Answer again with JSON only that fixes these problems.`;
+}
+
+/**
+ * A minimal value that conforms to the schema, with strings filled from `text`;
+ * lets offline adapters answer structured queries deterministically
+ */
+export function sampleFromSchema(schema: JsonSchema, text: string): unknown {
+  if ('const' in schema) return schema.const;
+  if (schema.enum?.length) return schema.enum[0];
+  if (schema.default !== undefined) return schema.default;
+  if (schema.anyOf?.length) return sampleFromSchema(schema.anyOf[0], text);
+
+  const type = allowedTypes(schema).find(candidate => candidate !== 'null') || allowedTypes(schema)[0];
+  switch (type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, property]) => [key, sampleFromSchema(property, text)])
+      );
+    case 'array':
+      return Array.from({ length: schema.minItems || 0 }, () => sampleFromSchema(schema.items || {}, text));
+    case 'number':
+    case 'integer': {
+      const lower = schema.minimum ?? Math.min(0, schema.maximum ?? 0);
+      return type === 'integer' ? Math.ceil(lower) : lower;
+    }
+    case 'boolean':
+      return false;
+    case 'null':
+      return null;
+    default: {
+      const sample = text.slice(0, schema.maxLength ?? text.length);
+      return sample.padEnd(schema.minLength || 0, '.');
+    }
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * Thought Tree Persistence for SovereigntyOS AI
+ * Stores each ReasoningEngine run's tree under a run ID so interrupted runs can resume,
+ * and exports trees to Graphviz DOT, Mermaid and JSON
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type {
+  AdvancedReasoningContext,
+  ThoughtNode,
+  ThoughtSearchConfig,
+  ThoughtSearchStats
+} from './ReasoningEngine';
+
+/**
+ * Where a run stopped: the search resumes from here
+ */
+export interface ThoughtSearchCheckpoint {
+  phase: 'initial' | 'search' | 'analysis';
+  depth?: number; // Beam: level whose frontier is being expanded
+  frontier?: string[]; // Beam: node ids at that level
+  bestScore?: number; // Beam: best path score before that level
+  levelsWithoutGain?: number; // Beam: plateau count before that level
+  iterations?: number; // MCTS: rounds completed
+  outcome?: Pick<ThoughtSearchStats, 'depthReached' | 'stopReason' | 'iterations'>; // Set once the search has finished
+  nodesPruned: number;
+  tokens: number;
+  cost: number;
+}
+
+export interface ThoughtTreeRun {
+  runId: string;
+  query: string;
+  context: AdvancedReasoningContext;
+  search: ThoughtSearchConfig; // Settings the run started with; resumes reuse them
+  status: 'running' | 'interrupted' | 'completed';
+  error?: string; // Why the run was interrupted
+  rootIds: string[];
+  nodes: ThoughtNode[];
+  checkpoint: ThoughtSearchCheckpoint;
+  bestPath?: string[]; // Node ids of the winning path, once chosen
+  score?: number; // Winning path score
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ThoughtTreeStore {
+  save(run: ThoughtTreeRun): Promise<void>;
+  load(runId: string): Promise<ThoughtTreeRun | null>;
+  list(): Promise<ThoughtTreeRun[]>;
+  delete(runId: string): Promise<boolean>;
+}
+
+/**
+ * Runs are copied through JSON on the way in and out, so both stores hand back the same shapes
+ */
+function cloneRun(serialised: string): ThoughtTreeRun {
+  const run = JSON.parse(serialised);
+  return {
+    ...run,
+    createdAt: new Date(run.createdAt),
+    updatedAt: new Date(run.updatedAt),
+    nodes: run.nodes.map((node: ThoughtNode) => ({ ...node, timestamp: new Date(node.timestamp) }))
+  };
+}
+
+/**
+ * Volatile store; the default when ReasoningEngine is given none
+ */
+export class InMemoryThoughtTreeStore implements ThoughtTreeStore {
+  private runs: Map<string, string> = new Map();
+
+  async save(run: ThoughtTreeRun): Promise<void> {
+    this.runs.set(run.runId, JSON.stringify(run));
+  }
+
+  async load(runId: string): Promise<ThoughtTreeRun | null> {
+    const serialised = this.runs.get(runId);
+    return serialised ? cloneRun(serialised) : null;
+  }
+
+  async list(): Promise<ThoughtTreeRun[]> {
+    return Array.from(this.runs.values()).map(cloneRun);
+  }
+
+  async delete(runId: string): Promise<boolean> {
+    return this.runs.delete(runId);
+  }
+}
+
+/**
+ * One JSON file per run in a directory, rewritten at every checkpoint
+ */
+export class FileThoughtTreeStore implements ThoughtTreeStore {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async save(run: ThoughtTreeRun): Promise<void> {
+    const filePath = this.filePath(run.runId);
+    const temporaryPath = `${filePath}.tmp`;
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    // Write then rename so a crash mid-write leaves the previous checkpoint intact
+    await fs.promises.writeFile(temporaryPath, JSON.stringify(run), 'utf8');
+    await fs.promises.rename(temporaryPath, filePath);
+  }
+
+  async load(runId: string): Promise<ThoughtTreeRun | null> {
+    try {
+      return cloneRun(await fs.promises.readFile(this.filePath(runId), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async list(): Promise<ThoughtTreeRun[]> {
+    let files: string[];
+    try {
+      files = await fs.promises.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const runs = await Promise.all(
+      files.filter(file => file.endsWith('.json')).map(file => this.load(file.slice(0, -'.json'.length)))
+    );
+    return runs.filter((run): run is ThoughtTreeRun => run !== null);
+  }
+
+  async delete(runId: string): Promise<boolean> {
+    try {
+      await fs.promises.unlink(this.filePath(runId));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+
+  private filePath(runId: string): string {
+    if (!/^[\w.-]+$/.test(runId) || runId.startsWith('.')) {
+      throw new Error(`Invalid run id "${runId}": use letters, digits, '_', '-' and '.'`);
+    }
+    return path.join(this.directory, `${runId}.json`);
+  }
+}
+
+export type ThoughtTreeFormat = 'dot' | 'mermaid' | 'json';
+
+const LABEL_LENGTH = 60;
+
+function nodeLabel(node: ThoughtNode): string[] {
+  const content = node.content.replace(/\s+/g, ' ').trim();
+  const stats = [
+    node.score !== undefined && `score ${node.score.toFixed(2)}`,
+    `confidence ${node.confidence.toFixed(2)}`,
+    node.visits && `visits ${node.visits}`
+  ].filter(Boolean).join(', ');
+  return [content.length > LABEL_LENGTH ? `${content.slice(0, LABEL_LENGTH - 1)}…` : content, stats];
+}
+
+function edges(run: ThoughtTreeRun): Array<[ThoughtNode, ThoughtNode]> {
+  const byId = new Map(run.nodes.map(node => [node.id, node]));
+  return run.nodes.flatMap(node => node.childIds
+    .filter(childId => byId.has(childId))
+    .map(childId => [node, byId.get(childId)!] as [ThoughtNode, ThoughtNode]));
+}
+
+/**
+ * Graphviz digraph: the winning path is bold green, pruned branches dashed grey, and each
+ * contradiction a red dotted edge to the ancestor it conflicts with
+ */
+export function thoughtTreeToDot(run: ThoughtTreeRun): string {
+  const best = new Set(run.bestPath || []);
+  const escape = (text: string) => text.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+  const quote = (text: string) => `"${escape(text)}"`;
+  const lines = [`digraph ${quote(run.runId)} {`, '  rankdir=TB;', '  node [shape=box, style=rounded];'];
+
+  for (const node of run.nodes) {
+    const attributes = [`label="${nodeLabel(node).map(escape).join('\\n')}"`, `tooltip=${quote(node.reasoning)}`];
+    if (best.has(node.id)) attributes.push('color=darkgreen', 'penwidth=2', 'style="rounded,bold"');
+    else if (node.pruned) attributes.push('color=grey', 'fontcolor=grey', 'style="rounded,dashed"');
+    if (node.contradictions.length > 0 && !best.has(node.id)) attributes.push('color=red');
+    lines.push(`  ${quote(node.id)} [${attributes.join(', ')}];`);
+  }
+  for (const [parent, child] of edges(run)) {
+    const onBestPath = best.has(parent.id) && best.has(child.id);
+    lines.push(`  ${quote(parent.id)} -> ${quote(child.id)}${onBestPath ? ' [color=darkgreen, penwidth=2]' : ''};`);
+  }
+  for (const node of run.nodes) {
+    for (const contradiction of node.contradictions) {
+      lines.push(
+        `  ${quote(node.id)} -> ${quote(contradiction.nodeId)} ` +
+        `[style=dotted, color=red, constraint=false, label=${quote(`contradicts (${contradiction.cue})`)}];`
+      );
+    }
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Mermaid flowchart with the same highlighting as thoughtTreeToDot
+ */
+export function thoughtTreeToMermaid(run: ThoughtTreeRun): string {
+  const best = new Set(run.bestPath || []);
+  const ids = new Map(run.nodes.map((node, i) => [node.id, `n${i}`]));
+  const escape = (text: string) => text.replace(/"/g, '#quot;').replace(/[<>]/g, character => character === '<' ? '#lt;' : '#gt;');
+  const lines = ['flowchart TD'];
+
+  for (const node of run.nodes) {
+    lines.push(`  ${ids.get(node.id)}["${nodeLabel(node).map(escape).join('<br/>')}"]`);
+  }
+  for (const [parent, child] of edges(run)) {
+    lines.push(`  ${ids.get(parent.id)} --> ${ids.get(child.id)}`);
+  }
+  for (const node of run.nodes) {
+    for (const contradiction of node.contradictions.filter(contradiction => ids.has(contradiction.nodeId))) {
+      lines.push(`  ${ids.get(node.id)} -. contradicts .-> ${ids.get(contradiction.nodeId)}`);
+    }
+  }
+
+  const classes: Array<[string, (node: ThoughtNode) => boolean, string]> = [
+    ['best', node => best.has(node.id), 'stroke:#1b7f3b,stroke-width:3px'],
+    ['pruned', node => !best.has(node.id) && !!node.pruned, 'stroke:#999,stroke-dasharray:4 3,color:#999'],
+    ['contradicted', node => !best.has(node.id) && node.contradictions.length > 0, 'stroke:#c62828']
+  ];
+  for (const [name, matches, style] of classes) {
+    const members = run.nodes.filter(matches).map(node => ids.get(node.id));
+    if (members.length === 0) continue;
+    lines.push(`  classDef ${name} ${style}`, `  class ${members.join(',')} ${name}`);
+  }
+
+  return lines.join('\n');
+}
+
+export function formatThoughtTree(run: ThoughtTreeRun, format: ThoughtTreeFormat): string {
+  switch (format) {
+    case 'dot':
+      return thoughtTreeToDot(run);
+    case 'mermaid':
+      return thoughtTreeToMermaid(run);
+    case 'json':
+      return JSON.stringify(run, null, 2);
+    default:
+      throw new Error(`Unknown thought tree format: ${format}`);
+  }
+}
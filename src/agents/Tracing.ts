@@ -0,0 +1,299 @@
+/**
+ * Query Tracing for SovereigntyOS AI
+ * OpenTelemetry-style spans with an OTLP/JSON file exporter for local inspection
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+
+export type SpanAttributeValue = string | number | boolean;
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+export type SpanStatusCode = 'unset' | 'ok' | 'error';
+
+export interface SpanEvent {
+  name: string;
+  time: number; // Epoch milliseconds
+  attributes: SpanAttributes;
+}
+
+/**
+ * An ended span as handed to exporters
+ */
+export interface ReadableSpan {
+  name: string;
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  startTime: number; // Epoch milliseconds, sub-millisecond precision
+  endTime: number;
+  attributes: SpanAttributes;
+  events: SpanEvent[];
+  status: { code: SpanStatusCode; message?: string };
+}
+
+export interface SpanExporter {
+  export(spans: ReadableSpan[]): Promise<void>;
+}
+
+function now(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+export class Span {
+  readonly name: string;
+  readonly traceId: string;
+  readonly spanId: string;
+  readonly parentSpanId?: string;
+  private startTime = now();
+  private endTime: number | null = null;
+  private attributes: SpanAttributes = {};
+  private events: SpanEvent[] = [];
+  private status: ReadableSpan['status'] = { code: 'unset' };
+  private onEnd: (span: ReadableSpan) => void;
+
+  constructor(
+    name: string,
+    ids: { traceId: string; spanId: string; parentSpanId?: string },
+    onEnd: (span: ReadableSpan) => void
+  ) {
+    this.name = name;
+    this.traceId = ids.traceId;
+    this.spanId = ids.spanId;
+    this.parentSpanId = ids.parentSpanId;
+    this.onEnd = onEnd;
+  }
+
+  setAttribute(key: string, value: SpanAttributeValue | undefined): this {
+    this.attributes[key] = value;
+    return this;
+  }
+
+  setAttributes(attributes: SpanAttributes): this {
+    Object.assign(this.attributes, attributes);
+    return this;
+  }
+
+  addEvent(name: string, attributes: SpanAttributes = {}): this {
+    this.events.push({ name, time: now(), attributes });
+    return this;
+  }
+
+  recordException(error: unknown): this {
+    const message = error instanceof Error ? error.message : String(error);
+    this.addEvent('exception', {
+      'exception.type': error instanceof Error ? error.name : typeof error,
+      'exception.message': message
+    });
+    return this.setStatus('error', message);
+  }
+
+  setStatus(code: SpanStatusCode, message?: string): this {
+    this.status = { code, message };
+    return this;
+  }
+
+  /**
+   * Ending twice is a no-op, so cleanup paths can end spans unconditionally
+   */
+  end(): void {
+    if (this.endTime !== null) return;
+    this.endTime = now();
+    this.onEnd({
+      name: this.name,
+      traceId: this.traceId,
+      spanId: this.spanId,
+      parentSpanId: this.parentSpanId,
+      startTime: this.startTime,
+      endTime: this.endTime,
+      attributes: { ...this.attributes },
+      events: [...this.events],
+      status: { ...this.status }
+    });
+  }
+}
+
+/**
+ * Creates spans and exports each trace as one batch once its root span ends
+ */
+export class Tracer {
+  private exporter: SpanExporter | null;
+  private pendingTraces: Map<string, ReadableSpan[]> = new Map();
+  private exports: Promise<void> = Promise.resolve();
+
+  constructor(options: { exporter?: SpanExporter } = {}) {
+    this.exporter = options.exporter || null;
+  }
+
+  startSpan(name: string, options: { parent?: Span; attributes?: SpanAttributes } = {}): Span {
+    const parent = options.parent;
+    const traceId = parent ? parent.traceId : randomBytes(16).toString('hex');
+    // Without an exporter nothing is batched, so nothing needs to wait for the root span
+    if (!parent && this.exporter) {
+      this.pendingTraces.set(traceId, []);
+    }
+
+    const span = new Span(
+      name,
+      { traceId, spanId: randomBytes(8).toString('hex'), parentSpanId: parent?.spanId },
+      ended => this.handleEnd(ended)
+    );
+    return span.setAttributes(options.attributes || {});
+  }
+
+  /**
+   * Run `fn` inside a child span, recording failures and ending the span either way
+   */
+  async withSpan<T>(
+    name: string,
+    parent: Span | undefined,
+    fn: (span: Span) => Promise<T>,
+    attributes: SpanAttributes = {}
+  ): Promise<T> {
+    const span = this.startSpan(name, { parent, attributes });
+    try {
+      const result = await fn(span);
+      span.setStatus('ok');
+      return result;
+    } catch (error) {
+      span.recordException(error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Resolves once every finished trace has been handed to the exporter
+   */
+  flush(): Promise<void> {
+    return this.exports;
+  }
+
+  private handleEnd(span: ReadableSpan): void {
+    const trace = this.pendingTraces.get(span.traceId);
+    if (!span.parentSpanId) {
+      this.pendingTraces.delete(span.traceId);
+    }
+    if (!this.exporter) return;
+
+    if (!trace) {
+      // Children that outlive their root (e.g. abandoned timeouts) are exported on their own
+      this.schedule([span]);
+      return;
+    }
+
+    trace.push(span);
+    if (!span.parentSpanId) {
+      this.schedule(trace);
+    }
+  }
+
+  private schedule(spans: ReadableSpan[]): void {
+    const exporter = this.exporter!;
+    this.exports = this.exports
+      .then(() => exporter.export(spans))
+      .catch(error => console.error('Error exporting trace spans:', error));
+  }
+}
+
+export class InMemorySpanExporter implements SpanExporter {
+  private spans: ReadableSpan[] = [];
+
+  async export(spans: ReadableSpan[]): Promise<void> {
+    this.spans.push(...spans);
+  }
+
+  getFinishedSpans(): ReadableSpan[] {
+    return [...this.spans];
+  }
+
+  reset(): void {
+    this.spans = [];
+  }
+}
+
+type OtlpAnyValue =
+  | { stringValue: string }
+  | { intValue: string }
+  | { doubleValue: number }
+  | { boolValue: boolean };
+
+const OTLP_STATUS_CODES: Record<SpanStatusCode, number> = { unset: 0, ok: 1, error: 2 };
+const OTLP_SPAN_KIND_INTERNAL = 1;
+
+function toUnixNano(epochMs: number): string {
+  const millis = Math.floor(epochMs);
+  const nanos = Math.round((epochMs - millis) * 1e6);
+  return (BigInt(millis) * BigInt(1e6) + BigInt(nanos)).toString();
+}
+
+function toOtlpValue(value: SpanAttributeValue): OtlpAnyValue {
+  if (typeof value === 'boolean') return { boolValue: value };
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  }
+  return { stringValue: value };
+}
+
+function toOtlpAttributes(attributes: SpanAttributes): Array<{ key: string; value: OtlpAnyValue }> {
+  return Object.entries(attributes)
+    .filter((entry): entry is [string, SpanAttributeValue] => entry[1] !== undefined)
+    .map(([key, value]) => ({ key, value: toOtlpValue(value) }));
+}
+
+/**
+ * Convert spans to an OTLP/JSON ExportTraceServiceRequest
+ */
+export function toOtlpJson(spans: ReadableSpan[], serviceName: string): Record<string, unknown> {
+  return {
+    resourceSpans: [{
+      resource: { attributes: toOtlpAttributes({ 'service.name': serviceName }) },
+      scopeSpans: [{
+        scope: { name: 'sovereigntyos.cognitive' },
+        spans: spans.map(span => ({
+          traceId: span.traceId,
+          spanId: span.spanId,
+          ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+          name: span.name,
+          kind: OTLP_SPAN_KIND_INTERNAL,
+          startTimeUnixNano: toUnixNano(span.startTime),
+          endTimeUnixNano: toUnixNano(span.endTime),
+          attributes: toOtlpAttributes(span.attributes),
+          events: span.events.map(event => ({
+            name: event.name,
+            timeUnixNano: toUnixNano(event.time),
+            attributes: toOtlpAttributes(event.attributes)
+          })),
+          status: {
+            code: OTLP_STATUS_CODES[span.status.code],
+            ...(span.status.message ? { message: span.status.message } : {})
+          }
+        }))
+      }]
+    }]
+  };
+}
+
+/**
+ * Appends one OTLP/JSON request per line, matching the OpenTelemetry file exporter format
+ */
+export class OtlpJsonFileExporter implements SpanExporter {
+  private filePath: string;
+  private serviceName: string;
+
+  constructor(filePath: string, options: { serviceName?: string } = {}) {
+    this.filePath = filePath;
+    this.serviceName = options.serviceName || 'sovereigntyos-cognitive-orchestrator';
+  }
+
+  async export(spans: ReadableSpan[]): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.appendFile(
+      this.filePath,
+      `${JSON.stringify(toOtlpJson(spans, this.serviceName))}\n`,
+      'utf8'
+    );
+  }
+}
@@ -7,6 +7,12 @@
 import { EventEmitter } from 'events';
 import { v4 as uuidv4 } from 'uuid';
 import axios from 'axios';
+import {
+  StructuredOutputError,
+  buildSchemaInstructions,
+  buildSchemaReaskPrompt,
+  parseStructuredOutput
+} from '../agents/StructuredOutput';
 
 export interface DeepSeekCapability {
   id: string;
@@ -36,6 +42,7 @@ export interface DeepSeekRequest {
   presence_penalty?: number;
   stop?: string[];
   stream?: boolean;
+  response_format?: { type: 'text' | 'json_object' };
 }
 
 export interface DeepSeekResponse {
@@ -96,17 +103,24 @@ export class DeepSeekAgent extends EventEmitter {
     }
   }
 
+  /**
+   * Set `task.outputSchema` (a JSON Schema) to get a validated object back in `result.data`;
+   * non-conforming answers are repaired or re-asked up to `task.maxSchemaReasks` (default 1) times
+   */
   async processTask(task: any): Promise<any> {
     const startTime = Date.now();
     
     try {
       // Prepare the request optimized for cost efficiency
+      const systemPrompt = this.getSystemPrompt(task.type);
       const request: DeepSeekRequest = {
         model: this.defaultModel,
         messages: [
           {
             role: 'system',
-            content: this.getSystemPrompt(task.type)
+            content: task.outputSchema
+              ? `${systemPrompt}\n\n${buildSchemaInstructions(task.outputSchema)}`
+              : systemPrompt
           },
           {
             role: 'user',
@@ -115,14 +129,21 @@ export class DeepSeekAgent extends EventEmitter {
         ],
         max_tokens: this.calculateOptimalTokens(task),
         temperature: 0.1, // Lower temperature for cost efficiency and consistency
-        top_p: 0.95
+        top_p: 0.95,
+        response_format: task.outputSchema ? { type: 'json_object' } : undefined
       };
 
       // Make API call to DeepSeek
-      const response = await this.makeApiCall(request);
+      let response = await this.makeApiCall(request);
+      let usage = response.usage;
+      let data: unknown;
+
+      if (task.outputSchema) {
+        ({ response, usage, data } = await this.enforceOutputSchema(task, request, response));
+      }
       
       // Calculate actual costs
-      const costs = this.calculateCosts(response.usage);
+      const costs = this.calculateCosts(usage);
       
       // Emit cost tracking event
       this.emit('cost_calculated', {
@@ -130,7 +151,7 @@ export class DeepSeekAgent extends EventEmitter {
         task_id: task.id,
         costs: costs,
         savings: this.calculateSavings(costs),
-        tokens: response.usage
+        tokens: usage
       });
 
       return {
@@ -139,6 +160,7 @@ export class DeepSeekAgent extends EventEmitter {
         result: {
           type: 'deepseek_result',
           content: response.choices[0].message.content,
+          data,
           reasoning: 'Ultra cost-efficient processing with DeepSeek V3.2-Exp',
           model_used: response.model,
           cost_breakdown: costs
@@ -149,8 +171,8 @@ export class DeepSeekAgent extends EventEmitter {
         metadata: {
           agent: 'DeepSeek-V3.2-Exp',
           cost_efficiency: '98% cheaper than GPT-4',
-          tokens_used: response.usage.total_tokens,
-          cache_hit_tokens: response.usage.prompt_cache_hit_tokens || 0,
+          tokens_used: usage.total_tokens,
+          cache_hit_tokens: usage.prompt_cache_hit_tokens || 0,
           actual_cost: costs.total,
           savings_vs_gpt4: costs.savings_vs_gpt4
         }
@@ -166,6 +188,56 @@ export class DeepSeekAgent extends EventEmitter {
     }
   }
 
+  /**
+   * Validate the answer against task.outputSchema, re-asking with the validation errors when
+   * local repair fails and another call of the same cost fits `task.requirements.maxCost`.
+   * Usage covers every call made.
+   */
+  private async enforceOutputSchema(
+    task: any,
+    request: DeepSeekRequest,
+    response: DeepSeekResponse
+  ): Promise<{ response: DeepSeekResponse; usage: DeepSeekResponse['usage']; data: unknown }> {
+    const maxReasks = task.maxSchemaReasks ?? 1;
+    const usage = { ...response.usage };
+
+    for (let reask = 0; ; reask++) {
+      const content = response.choices[0].message.content;
+      const parsed = parseStructuredOutput(content, task.outputSchema);
+      if (parsed.valid) {
+        response.choices[0].message.content = JSON.stringify(parsed.value);
+        return { response, usage, data: parsed.value };
+      }
+
+      this.emit('schema_validation_failed', {
+        agent: 'deepseek',
+        task_id: task.id,
+        errors: parsed.errors,
+        attempt: reask + 1
+      });
+      if (reask >= maxReasks) {
+        throw new StructuredOutputError(this.capability.id, content, parsed.errors, reask + 1);
+      }
+      const maxCost = task.requirements?.maxCost ?? Infinity;
+      if (this.calculateCosts(usage).total + this.calculateCosts(response.usage).total > maxCost) {
+        const skipped = `Re-ask skipped: another call would exceed the $${maxCost} budget`;
+        throw new StructuredOutputError(this.capability.id, content, [...parsed.errors, skipped], reask + 1);
+      }
+
+      response = await this.makeApiCall({
+        ...request,
+        messages: [
+          request.messages[0],
+          { role: 'user', content: buildSchemaReaskPrompt(this.formatTaskContent(task), content, parsed.errors) }
+        ]
+      });
+      usage.prompt_tokens += response.usage.prompt_tokens;
+      usage.completion_tokens += response.usage.completion_tokens;
+      usage.total_tokens += response.usage.total_tokens;
+      usage.prompt_cache_hit_tokens = (usage.prompt_cache_hit_tokens || 0) + (response.usage.prompt_cache_hit_tokens || 0);
+    }
+  }
+
   private async makeApiCall(request: DeepSeekRequest): Promise<DeepSeekResponse> {
     try {
       const response = await axios.post(
@@ -237,7 +309,7 @@ export class DeepSeekAgent extends EventEmitter {
     
     return {
       ...costs,
-      savings_vs_gpt4: this.calculateSavingsVsGPT4(usage),
+      savings_vs_gpt4: this.calculateSavingsVsGPT4(usage, costs.total),
       formatted: {
         total: `$${costs.total.toFixed(6)}`,
         savings_percentage: '98%'
@@ -245,10 +317,9 @@ export class DeepSeekAgent extends EventEmitter {
     };
   }
 
-  private calculateSavingsVsGPT4(usage: any): number {
+  private calculateSavingsVsGPT4(usage: any, deepseekCost: number): number {
     // GPT-4 pricing: ~$30/1M input, ~$60/1M output
     const gpt4Cost = (usage.prompt_tokens / 1_000_000) * 30 + (usage.completion_tokens / 1_000_000) * 60;
-    const deepseekCost = this.calculateCosts(usage).total;
     
     return gpt4Cost - deepseekCost;
   }
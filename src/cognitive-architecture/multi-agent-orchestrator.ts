@@ -7,6 +7,7 @@
 import { EventEmitter } from 'events';
 import { v4 as uuidv4 } from 'uuid';
 import { EnhancedCognitiveArchitecture, WorkflowTask, WorkflowResult } from './core';
+import { ConfidenceCalibrator } from '../agents/ConfidenceCalibrator';
 
 // Agent Interfaces
 export interface AgentCapability {
@@ -435,9 +436,12 @@ export class MultiAgentOrchestrator extends EventEmitter {
   private taskQueue: TaskRequest[] = [];
   private activeExecutions: Map<string, Promise<TaskResult>> = new Map();
   private completedTasks: Map<string, TaskResult> = new Map();
+  private calibrator: ConfidenceCalibrator;
 
-  constructor() {
+  constructor(options: { calibrator?: ConfidenceCalibrator } = {}) {
     super();
+    this.calibrator = options.calibrator || new ConfidenceCalibrator();
+    this.calibrator.on('write-failed', event => this.emit('calibration_write_failed', event));
     this.gpt5Agent = new GPT5Agent();
     this.claudeAgent = new ClaudeAgent();
     this.zaiAgent = new ZAIAgent();
@@ -459,10 +463,11 @@ export class MultiAgentOrchestrator extends EventEmitter {
       this.emit('tasks_decomposed', { original: request, subTasks });
       
       // Phase 2: Route subtasks to specialized agents
-      const taskExecutions = subTasks.map(task => this.routeToAgent(task));
+      const taskExecutions = subTasks.map(task => this.routeToAgent(task, request.id));
       const results = await Promise.all(taskExecutions);
       
       // Phase 3: GPT-5 aggregates results
+      // Built from the already calibrated subtask confidences
       const finalResult = await this.gpt5Agent.aggregateResults(results);
       
       this.completedTasks.set(request.id, finalResult);
@@ -475,7 +480,10 @@ export class MultiAgentOrchestrator extends EventEmitter {
     }
   }
 
-  private async routeToAgent(task: TaskRequest): Promise<TaskResult> {
+  /**
+   * Run a subtask on its agent; the confidence is calibrated and logged under the parent request
+   */
+  private async routeToAgent(task: TaskRequest, requestId: string): Promise<TaskResult> {
     const agent = this.selectOptimalAgent(task);
     
     this.emit('task_routed', { task, agent: agent.getCapability().name });
@@ -486,7 +494,15 @@ export class MultiAgentOrchestrator extends EventEmitter {
     try {
       const result = await execution;
       this.activeExecutions.delete(task.id);
-      return result;
+      return {
+        ...result,
+        confidence: await this.calibrator.calibrateAndLog(
+          requestId,
+          result.confidence,
+          result.agentId,
+          task.context.domainContext
+        )
+      };
     } catch (error) {
       this.activeExecutions.delete(task.id);
       throw error;
@@ -514,6 +530,17 @@ export class MultiAgentOrchestrator extends EventEmitter {
     }
   }
 
+  /**
+   * Judge a processed request; its subtask confidences become calibration samples
+   */
+  recordOutcome(requestId: string, correct: boolean): Promise<number> {
+    return this.calibrator.recordOutcome(requestId, correct);
+  }
+
+  getCalibrator(): ConfidenceCalibrator {
+    return this.calibrator;
+  }
+
   // Cost and performance optimization
   async optimizeTaskDistribution(tasks: TaskRequest[]): Promise<TaskRequest[]> {
     // Sort tasks by priority and optimize for cost-efficiency
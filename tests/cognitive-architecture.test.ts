@@ -9,6 +9,17 @@ import {
   CognitiveOutput,
   ScaffoldingLevel
 } from '../src/cognitive-architecture/core';
+import axios from 'axios';
+import { DeepSeekAgent } from '../src/cognitive-architecture/deepseek-agent';
+import { JsonSchema, StructuredOutputError } from '../src/agents/StructuredOutput';
+import {
+  GPT5Agent,
+  MultiAgentOrchestrator,
+  Priority,
+  TaskRequest,
+  TaskType
+} from '../src/cognitive-architecture/multi-agent-orchestrator';
+import { ConfidenceCalibrator } from '../src/agents/ConfidenceCalibrator';
 
 // Mock Cognitive Module for testing
 class MockCognitiveModule implements CognitiveModule {
@@ -405,4 +416,103 @@ describe('MockCognitiveModule', () => {
     // Should not throw
     expect(() => module.updateState(feedback)).not.toThrow();
   });
-});
\ No newline at end of file
+});
+
+describe('DeepSeekAgent', () => {
+  const outputSchema: JsonSchema = {
+    type: 'object',
+    properties: { verdict: { type: 'string' }, score: { type: 'number' } },
+    required: ['verdict', 'score']
+  };
+  // 1000 prompt and 1000 completion tokens cost $0.0007
+  const reply = (content: string) => ({
+    data: {
+      id: 'chatcmpl-1',
+      object: 'chat.completion',
+      created: 0,
+      model: 'deepseek-chat',
+      choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 1000, completion_tokens: 1000, total_tokens: 2000 }
+    }
+  });
+  const task = (maxCost?: number) => ({
+    id: 'task-1',
+    type: 'analysis',
+    content: 'Assess the municipal audit',
+    requirements: { maxCost },
+    outputSchema
+  });
+
+  test('should return a conforming first response as data', async () => {
+    const post = jest.spyOn(axios, 'post').mockResolvedValue(reply('{"verdict": "qualified", "score": 0.7}'));
+
+    const result = await new DeepSeekAgent('test-key').processTask(task());
+
+    expect(post).toHaveBeenCalledTimes(1);
+    expect(result.result.data).toEqual({ verdict: 'qualified', score: 0.7 });
+    expect((post.mock.calls[0][1] as { response_format: unknown }).response_format).toEqual({ type: 'json_object' });
+  });
+
+  test('should repair a near-miss without another call', async () => {
+    const post = jest.spyOn(axios, 'post').mockResolvedValue(reply('```json\n{"verdict": "qualified", "score": "0.7"\n```'));
+
+    const result = await new DeepSeekAgent('test-key').processTask(task());
+
+    expect(post).toHaveBeenCalledTimes(1);
+    expect(result.result.data).toEqual({ verdict: 'qualified', score: 0.7 });
+    expect(result.result.content).toBe('{"verdict":"qualified","score":0.7}');
+  });
+
+  test('should re-ask with the validation errors only while another call fits the budget', async () => {
+    const post = jest.spyOn(axios, 'post')
+      .mockResolvedValueOnce(reply('{"verdict": "qualified"}'))
+      .mockResolvedValueOnce(reply('{"verdict": "qualified", "score": 0.7}'))
+      .mockResolvedValueOnce(reply('{"verdict": "qualified"}'));
+    const agent = new DeepSeekAgent('test-key');
+    agent.on('error', () => undefined);
+
+    const reasked = await agent.processTask(task(0.01));
+    const skipped = agent.processTask(task(0.001));
+
+    expect(reasked.result.data).toEqual({ verdict: 'qualified', score: 0.7 });
+    expect(reasked.costEstimate).toBeCloseTo(0.0014);
+    expect((post.mock.calls[1][1] as { messages: Array<{ content: string }> }).messages[1].content).toContain('score');
+    await expect(skipped).rejects.toBeInstanceOf(StructuredOutputError);
+    await expect(skipped).rejects.toThrow('Re-ask skipped: another call would exceed the $0.001 budget');
+    expect(post).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('MultiAgentOrchestrator', () => {
+  const request = (id: string): TaskRequest => ({
+    id,
+    type: TaskType.GENERAL_QUERY,
+    priority: Priority.MEDIUM,
+    content: 'Summarise the budget vote',
+    context: { sessionId: 'session-1', domainContext: 'budget', availableTools: [] },
+    requirements: {}
+  });
+
+  beforeEach(() => {
+    // Skip the simulated model latency
+    jest.spyOn(GPT5Agent.prototype as any, 'simulateProcessing').mockResolvedValue(undefined);
+  });
+
+  test('should calibrate subtask confidences and log them under the parent request', async () => {
+    const calibrator = new ConfidenceCalibrator({ minSamples: 2 });
+    const orchestrator = new MultiAgentOrchestrator({ calibrator });
+
+    const first = await orchestrator.processRequest(request('request-1'));
+    await orchestrator.recordOutcome('request-1', false);
+    await orchestrator.processRequest(request('request-2'));
+    await orchestrator.recordOutcome('request-2', false);
+    const third = await orchestrator.processRequest(request('request-3'));
+
+    // Both earlier 0.9 answers were wrong, and the aggregate is not calibrated a second time
+    expect(first.confidence).toBeCloseTo(0.9);
+    expect(third.confidence).toBeCloseTo(0);
+    expect((await calibrator.getObservations()).filter(observation => observation.taskId === 'request-3')).toEqual([
+      expect.objectContaining({ agent: 'gpt5-orchestrator', domain: 'budget', predicted: 0.9 })
+    ]);
+  });
+});